@@ -0,0 +1,785 @@
+import cockpit from "cockpit";
+
+/**
+ * Typed client for the smb-zfs command line tool.
+ *
+ * Every command has a builder in smbZfsCommands (used directly by replay plans, which show and
+ * run plain argv lists) and a typed method on smbZfsApi. Output of 'get-state', 'list pools' and
+ * every '--json' response is checked against a schema, so a change in the CLI output shape is
+ * reported with the offending path instead of surfacing as undefined fields in the UI.
+ */
+
+export interface UserData {
+    shell_access: boolean;
+    groups: string[];
+    created: string;
+    dataset?: {
+        name: string;
+        quota?: string;
+        pool: string;
+    };
+}
+
+export interface GroupData {
+    description?: string;
+    members: string[];
+    created: string;
+}
+
+export interface ShareData {
+    dataset: {
+        name: string;
+        quota?: string;
+        pool: string;
+    };
+    smb_config: {
+        comment?: string;
+        browseable: boolean;
+        read_only: boolean;
+        valid_users?: string;
+    };
+    system: {
+        owner: string;
+        group: string;
+        permissions: string;
+    };
+    created: string;
+}
+
+export interface State {
+    initialized: boolean;
+    primary_pool?: string;
+    secondary_pools?: string[];
+    server_name?: string;
+    workgroup?: string;
+    macos_optimized?: boolean;
+    default_home_quota?: string;
+    users?: Record<string, UserData>;
+    groups?: Record<string, GroupData>;
+    shares?: Record<string, ShareData>;
+}
+
+// Parsed '--json' response (the CLI reports at least a message), or the raw text of other commands
+export type SmbZfsOutput = Record<string, unknown> | string | null;
+
+// The one error type of this module: a failed process, an error reported by the CLI, or output of an unexpected shape
+export class SmbZfsError extends Error {
+    command: string[];
+    exitCode: number | null; // null when the process did not run or did not exit normally
+    stderr: string;
+    path: string | null; // where the output deviated from the schema, for shape errors
+
+    constructor(message: string, command: string[], { exitCode = null, stderr = '', path = null }: {
+        exitCode?: number | null;
+        stderr?: string;
+        path?: string | null;
+    } = {}) {
+        super(message);
+        this.name = 'SmbZfsError';
+        this.command = command;
+        this.exitCode = exitCode;
+        this.stderr = stderr;
+        this.path = path;
+    }
+}
+
+// The CLI prints "Error: <message>" as its last line; tracebacks end with "<Exception>: <message>"
+const cliMessage = (text: string): string => {
+    const lines = text.split(/\r?\n/).map(l => l.trim())
+            .filter(Boolean);
+    return (lines[lines.length - 1] || '').replace(/^error:\s*/i, '');
+};
+
+interface CockpitProcessError {
+    message?: string;
+    problem?: string | null;
+    exit_status?: number | null;
+}
+
+// #region Schemas
+type Schema<T> = (value: unknown, path: string) => T;
+
+class SchemaViolation extends Error {
+    path: string;
+
+    constructor(path: string, expected: string, value: unknown) {
+        super(`${path || 'output'} should be ${expected}, got ${value === null ? 'null' : typeof value}`);
+        this.path = path;
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const child = (path: string, key: string | number) =>
+    (typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key);
+
+const string: Schema<string> = (value, path) => {
+    if (typeof value !== 'string') throw new SchemaViolation(path, 'a string', value);
+    return value;
+};
+
+const boolean: Schema<boolean> = (value, path) => {
+    if (typeof value !== 'boolean') throw new SchemaViolation(path, 'a boolean', value);
+    return value;
+};
+
+const number: Schema<number> = (value, path) => {
+    if (typeof value !== 'number') throw new SchemaViolation(path, 'a number', value);
+    return value;
+};
+
+// Absent and null both mean "not set"
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+    (value === undefined || value === null ? undefined : schema(value, path));
+
+const withDefault = <T>(schema: Schema<T>, fallback: T): Schema<T> => (value, path) =>
+    (value === undefined || value === null ? fallback : schema(value, path));
+
+const arrayOf = <T>(item: Schema<T>): Schema<T[]> => (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaViolation(path, 'a list', value);
+    return value.map((v, i) => item(v, child(path, i)));
+};
+
+const recordOf = <T>(item: Schema<T>): Schema<Record<string, T>> => (value, path) => {
+    if (!isObject(value)) throw new SchemaViolation(path, 'an object', value);
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, item(v, child(path, k))]));
+};
+
+// Unknown keys are dropped; keys whose schema yields undefined are left out of the result
+const objectOf = <T>(fields: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => (value, path) => {
+    if (!isObject(value)) throw new SchemaViolation(path, 'an object', value);
+    const result: Partial<T> = {};
+    for (const key of Object.keys(fields) as (keyof T & string)[]) {
+        const parsed = fields[key](value[key], child(path, key));
+        if (parsed !== undefined) result[key] = parsed;
+    }
+    return result as T;
+};
+
+const datasetSchema = objectOf<{ name: string; quota?: string; pool: string }>({
+    name: string,
+    quota: optional(string),
+    pool: string,
+});
+
+const userSchema = objectOf<UserData>({
+    shell_access: withDefault(boolean, false),
+    groups: withDefault(arrayOf(string), []),
+    created: withDefault(string, ''),
+    dataset: optional(datasetSchema),
+});
+
+const groupSchema = objectOf<GroupData>({
+    description: optional(string),
+    members: withDefault(arrayOf(string), []),
+    created: withDefault(string, ''),
+});
+
+const shareSchema = objectOf<ShareData>({
+    dataset: datasetSchema,
+    smb_config: objectOf<ShareData['smb_config']>({
+        comment: optional(string),
+        browseable: withDefault(boolean, true),
+        read_only: withDefault(boolean, false),
+        valid_users: optional(string),
+    }),
+    system: objectOf<ShareData['system']>({
+        owner: string,
+        group: string,
+        permissions: string,
+    }),
+    created: withDefault(string, ''),
+});
+
+// Also used to check the state inside backup files before a restore is planned
+export const stateSchema = objectOf<State>({
+    initialized: withDefault(boolean, false),
+    primary_pool: withDefault(string, ''),
+    secondary_pools: withDefault(arrayOf(string), []),
+    server_name: withDefault(string, ''),
+    workgroup: withDefault(string, ''),
+    macos_optimized: withDefault(boolean, false),
+    default_home_quota: withDefault(string, ''),
+    users: withDefault(recordOf(userSchema), {}),
+    groups: withDefault(recordOf(groupSchema), {}),
+    shares: withDefault(recordOf(shareSchema), {}),
+});
+
+const UNINITIALIZED_STATE: State = { initialized: false, secondary_pools: [], users: {}, groups: {}, shares: {} };
+
+const jsonResultSchema: Schema<Record<string, unknown>> = (value, path) => {
+    if (!isObject(value)) throw new SchemaViolation(path, 'an object', value);
+    optional(string)(value.error, child(path, 'error'));
+    optional(string)(value.message, child(path, 'message'));
+    return value;
+};
+
+const parseOutput = <T>(schema: Schema<T>, output: string, command: string[]): T => {
+    let data: unknown;
+    try {
+        data = JSON.parse(output);
+    } catch {
+        throw new SmbZfsError(`Unexpected output from 'smb-zfs ${command.join(' ')}': not valid JSON`, command, { exitCode: 0 });
+    }
+    try {
+        return schema(data, '');
+    } catch (err) {
+        if (!(err instanceof SchemaViolation)) throw err;
+        throw new SmbZfsError(`Unexpected output from 'smb-zfs ${command.join(' ')}': ${err.message}`, command,
+                              { exitCode: 0, path: err.path });
+    }
+};
+// #endregion
+
+// #region Commands
+export const SECRET_FLAGS = ['--password'];
+
+export interface CreateUserOptions {
+    shell?: boolean;
+    groups?: string[];
+    home?: boolean; // false creates the user without a home dataset
+}
+
+export interface CreateGroupOptions {
+    description?: string;
+    users?: string[];
+}
+
+export interface ModifyGroupOptions {
+    addUsers?: string[];
+    removeUsers?: string[];
+}
+
+export interface ShareOptions {
+    comment?: string;
+    owner?: string;
+    group?: string;
+    permissions?: string;
+    validUsers?: string;
+    readOnly?: boolean;
+    browseable?: boolean;
+    quota?: string; // 'none' removes the quota
+}
+
+export interface CreateShareOptions extends ShareOptions {
+    dataset: string; // relative to the pool
+    pool?: string;
+}
+
+export interface SetupOptions {
+    primaryPool: string;
+    secondaryPools?: string[];
+    serverName?: string;
+    workgroup?: string;
+    macos?: boolean;
+    defaultHomeQuota?: string;
+}
+
+export interface ModifySetupOptions {
+    serverName?: string;
+    workgroup?: string;
+    macos?: boolean;
+    defaultHomeQuota?: string; // 'none' removes the default
+    addSecondaryPools?: string[];
+    removeSecondaryPools?: string[];
+}
+
+const flag = (name: string, value: string | undefined): string[] => (value === undefined ? [] : [name, value]);
+const list = (name: string, values: string[] | undefined): string[] => (values?.length ? [name, values.join(',')] : []);
+const toggle = (on: string, off: string, value: boolean | undefined): string[] => {
+    if (value === undefined) return [];
+    return [value ? on : off];
+};
+
+// Options left undefined are not passed, so modify commands only touch what was given
+const shareArgs = (options: ShareOptions): string[] => [
+    ...flag('--comment', options.comment),
+    ...flag('--owner', options.owner),
+    ...flag('--group', options.group),
+    ...flag('--perms', options.permissions),
+    ...flag('--valid-users', options.validUsers),
+    ...flag('--quota', options.quota),
+];
+
+// Passwords are not part of any command; they are written to stdin (see smbZfsApi.runWithPassword)
+export const smbZfsCommands = {
+    createUser: (name: string, options: CreateUserOptions = {}): string[] => [
+        'create', 'user', name,
+        ...(options.shell ? ['--shell'] : []),
+        ...list('--groups', options.groups),
+        ...(options.home === false ? ['--no-home'] : []),
+    ],
+
+    deleteUser: (name: string, deleteData = false): string[] =>
+        ['delete', 'user', name, '--yes', ...(deleteData ? ['--delete-data'] : [])],
+
+    modifyHome: (user: string, quota: string): string[] => ['modify', 'home', user, '--quota', quota || 'none'],
+
+    createGroup: (name: string, options: CreateGroupOptions = {}): string[] => [
+        'create', 'group', name,
+        ...(options.description ? ['--description', options.description] : []),
+        ...list('--users', options.users),
+    ],
+
+    modifyGroup: (name: string, options: ModifyGroupOptions): string[] => [
+        'modify', 'group', name,
+        ...list('--add-users', options.addUsers),
+        ...list('--remove-users', options.removeUsers),
+    ],
+
+    deleteGroup: (name: string): string[] => ['delete', 'group', name],
+
+    createShare: (name: string, options: CreateShareOptions): string[] => [
+        'create', 'share', name, '--dataset', options.dataset,
+        ...flag('--pool', options.pool),
+        ...shareArgs(options),
+        // Writable and browseable are the defaults of the CLI
+        ...(options.readOnly ? ['--readonly'] : []),
+        ...(options.browseable === false ? ['--no-browse'] : []),
+    ],
+
+    modifyShare: (name: string, options: ShareOptions): string[] => [
+        'modify', 'share', name,
+        ...shareArgs(options),
+        ...toggle('--readonly', '--no-readonly', options.readOnly),
+        ...toggle('--browse', '--no-browse', options.browseable),
+    ],
+
+    deleteShare: (name: string, deleteData = false): string[] =>
+        ['delete', 'share', name, '--yes', ...(deleteData ? ['--delete-data'] : [])],
+
+    setup: (options: SetupOptions): string[] => [
+        'setup', '--primary-pool', options.primaryPool,
+        ...(options.secondaryPools?.length ? ['--secondary-pools', ...options.secondaryPools] : []),
+        ...(options.serverName ? ['--server-name', options.serverName] : []),
+        ...(options.workgroup ? ['--workgroup', options.workgroup] : []),
+        ...(options.macos ? ['--macos'] : []),
+        ...(options.defaultHomeQuota ? ['--default-home-quota', options.defaultHomeQuota] : []),
+    ],
+
+    modifySetup: (options: ModifySetupOptions): string[] => [
+        'modify', 'setup',
+        ...flag('--server-name', options.serverName),
+        ...flag('--workgroup', options.workgroup),
+        ...toggle('--macos', '--no-macos', options.macos),
+        ...flag('--default-home-quota', options.defaultHomeQuota),
+        ...(options.addSecondaryPools?.length ? ['--add-secondary-pools', ...options.addSecondaryPools] : []),
+        ...(options.removeSecondaryPools?.length ? ['--remove-secondary-pools', ...options.removeSecondaryPools] : []),
+    ],
+};
+
+// #endregion
+
+const MUTATING_COMMANDS = ["create", "modify", "delete", "passwd", "remove", "setup"];
+
+// #region Capabilities
+
+/**
+ * What the installed smb-zfs offers, read from '--version' and the argparse '--help' of every
+ * subcommand at startup. Keys of commands are the subcommand path ("modify user", "passwd"), values
+ * the long options its help lists.
+ */
+export interface SmbZfsCapabilities {
+    version: string | null;
+    commands: Record<string, string[]>;
+}
+
+export type SmbZfsFeature = 'homeQuota' | 'modifySetup';
+
+// The UI features that need more than the basic create/delete commands, with the argv they rely on
+export const SMB_ZFS_FEATURES: Record<SmbZfsFeature, { label: string; command: string[] }> = {
+    homeQuota: { label: 'Home directory quotas', command: ['modify', 'home', '--quota'] },
+    modifySetup: { label: 'Changing server settings after setup', command: ['modify', 'setup'] },
+};
+
+let detected: SmbZfsCapabilities | null = null;
+
+// --help and --version exit 0 on argparse; anything else (missing binary, old CLI) reads as no output
+const helpOutput = (args: string[]): Promise<string> => new Promise(resolve => {
+    cockpit.spawn(["smb-zfs", ...args], { err: "out" })
+            .then((output: string) => resolve(output || ''), () => resolve(''));
+});
+
+// argparse prints the choices of a subparser as '{user,share,group}'
+const subcommandsOf = (help: string): string[] => {
+    const match = help.match(/\{([\w,-]+)\}/);
+    return match ? match[1].split(',') : [];
+};
+
+const flagsOf = (help: string): string[] => [...new Set(help.match(/--[a-z0-9][a-z0-9-]*/g) || [])];
+
+const commandKey = (capabilities: SmbZfsCapabilities, command: string[]): string => {
+    const nested = `${command[0]} ${command[1]}`;
+    return capabilities.commands[nested] ? nested : command[0] || '';
+};
+
+/**
+ * The parts of an argv the installed CLI does not know, as "modify home --quota" style strings.
+ * Empty when everything is supported or nothing could be detected.
+ */
+const unsupportedParts = (command: string[]): string[] => {
+    if (!detected) return [];
+    const key = commandKey(detected, command);
+    const flags = detected.commands[key];
+    if (!flags) return [command.slice(0, 2).join(' ')];
+    return command.filter(arg => arg.startsWith('--') && !flags.includes(arg)).map(arg => `${key} ${arg}`);
+};
+
+// #endregion
+
+// #region Operations log
+
+export type OperationStatus = 'running' | 'succeeded' | 'failed';
+
+/**
+ * One mutating smb-zfs invocation as shown in the operations drawer. The command is stored
+ * redacted; the history lives in sessionStorage so it survives reloads but not the browser session.
+ */
+export interface OperationJob {
+    id: number;
+    command: string[];
+    started: string;
+    finished?: string;
+    status: OperationStatus;
+    exitCode?: number;
+    output: string;
+}
+
+// Flags whose following argument must never be shown or stored
+export const redactCommand = (command: string[]): string[] =>
+    command.map((arg, i) => (i > 0 && SECRET_FLAGS.includes(command[i - 1]) ? '********' : arg));
+
+const OPERATIONS_SESSION_KEY = "smb-zfs-operations";
+const MAX_OPERATIONS = 200;
+const MAX_OPERATION_OUTPUT = 64 * 1024;
+// Well below the usual 5 MB sessionStorage quota, which is shared with the rest of the page
+const MAX_STORED_OPERATIONS = 1024 * 1024;
+
+const operationStatus: Schema<OperationStatus> = (value, path) => {
+    if (value !== 'running' && value !== 'succeeded' && value !== 'failed') throw new SchemaViolation(path, 'a job status', value);
+    return value;
+};
+
+const operationSchema = objectOf<OperationJob>({
+    id: number,
+    command: arrayOf(string),
+    started: string,
+    finished: optional(string),
+    status: operationStatus,
+    exitCode: optional(number),
+    output: withDefault(string, ''),
+});
+
+// A job still running when the page was reloaded lost its channel and will never report back
+const loadOperations = (): OperationJob[] => {
+    try {
+        const stored = JSON.parse(window.sessionStorage.getItem(OPERATIONS_SESSION_KEY) || '[]');
+        return arrayOf(operationSchema)(stored, '').map((job): OperationJob => (job.status === 'running'
+            ? { ...job, status: 'failed', output: `${job.output}\n[interrupted by a page reload]\n` }
+            : job));
+    } catch {
+        return [];
+    }
+};
+
+let operations = loadOperations();
+let nextOperationId = Math.max(0, ...operations.map(job => job.id)) + 1;
+const operationListeners = new Set<() => void>();
+
+// Stores the newest jobs that fit into MAX_STORED_OPERATIONS; older ones are only kept in memory
+const persistOperations = () => {
+    const sizes = operations.map(job => JSON.stringify(job).length + 1);
+    let total = sizes.reduce((sum, size) => sum + size, 2);
+    let first = 0;
+    while (total > MAX_STORED_OPERATIONS && first < operations.length) total -= sizes[first++];
+    try {
+        window.sessionStorage.setItem(OPERATIONS_SESSION_KEY, JSON.stringify(operations.slice(first)));
+    } catch {
+        // Storage full or disabled: the history still works for this page
+    }
+};
+
+// Streamed output only updates memory; storage is written when a job starts, ends or the history is cleared
+const saveOperations = (next: OperationJob[], persist: boolean) => {
+    operations = next.slice(-MAX_OPERATIONS);
+    if (persist) persistOperations();
+    operationListeners.forEach(listener => listener());
+};
+
+const updateOperation = (id: number, persist: boolean, update: (job: OperationJob) => OperationJob) =>
+    saveOperations(operations.map(job => (job.id === id ? update(job) : job)), persist);
+
+const startOperation = (command: string[]): number => {
+    const id = nextOperationId++;
+    saveOperations([...operations, { id, command: redactCommand(command), started: new Date().toISOString(), status: 'running', output: '' }], true);
+    return id;
+};
+
+// Only the tail of very chatty commands is kept
+const appendOperation = (id: number, chunk: string) =>
+    updateOperation(id, false, job => ({ ...job, output: (job.output + chunk).slice(-MAX_OPERATION_OUTPUT) }));
+
+// A command can fail with exit status 0 when the CLI reports the error in its --json output
+const finishOperation = (id: number, exitCode: number | null, succeeded: boolean, stderr = '') =>
+    updateOperation(id, true, job => ({
+        ...job,
+        finished: new Date().toISOString(),
+        status: succeeded ? 'succeeded' : 'failed',
+        ...(exitCode !== null ? { exitCode } : {}),
+        output: (job.output + stderr).slice(-MAX_OPERATION_OUTPUT),
+    }));
+
+// Read side for the UI; jobs() returns the same array until something changes (useSyncExternalStore)
+export const operationsLog = {
+    jobs: (): OperationJob[] => operations,
+
+    subscribe: (listener: () => void): (() => void) => {
+        operationListeners.add(listener);
+        return () => {
+            operationListeners.delete(listener);
+        };
+    },
+
+    clear: () => saveOperations(operations.filter(job => job.status === 'running'), true),
+};
+
+// #endregion
+
+// #region Audit log
+
+const AUDIT_LOG_DIR = "/var/log/smb-zfs";
+export const AUDIT_LOG = `${AUDIT_LOG_DIR}/audit.jsonl`;
+
+/**
+ * One line of the host's audit log: who ran which mutating smb-zfs command and how it ended.
+ * action is the subcommand path ("modify share"), object the name it was applied to, if any.
+ */
+export interface AuditRecord {
+    time: string;
+    user: string;
+    action: string;
+    object: string;
+    command: string[];
+    result: 'success' | 'failure';
+    exitCode?: number;
+    error?: string;
+}
+
+const OBJECT_KINDS = ['user', 'group', 'share', 'home', 'setup'];
+
+const auditResult: Schema<AuditRecord['result']> = (value, path) => {
+    if (value !== 'success' && value !== 'failure') throw new SchemaViolation(path, "'success' or 'failure'", value);
+    return value;
+};
+
+const auditRecordSchema = objectOf<AuditRecord>({
+    time: string,
+    user: string,
+    action: string,
+    object: withDefault(string, ''),
+    command: arrayOf(string),
+    result: auditResult,
+    exitCode: optional(number),
+    error: optional(string),
+});
+
+// Newer cockpit exposes the login as a promise-returning cockpit.user(), older ones as an object
+const cockpitUser = async (): Promise<string> => {
+    const user = typeof cockpit.user === 'function' ? await cockpit.user() : cockpit.user;
+    return user?.name || 'unknown';
+};
+
+// error is set for every failure, including errors the CLI reports in its --json output with exit status 0
+const auditRecord = async (command: string[], exitCode: number | null, error?: string): Promise<AuditRecord> => {
+    const nested = OBJECT_KINDS.includes(command[1] || '');
+    const target = command[nested ? 2 : 1];
+    return {
+        time: new Date().toISOString(),
+        user: await cockpitUser(),
+        action: nested ? `${command[0]} ${command[1]}` : command[0],
+        object: target && !target.startsWith('--') ? target : '',
+        command: redactCommand(command),
+        result: error === undefined ? 'success' : 'failure',
+        ...(exitCode !== null ? { exitCode } : {}),
+        ...(error ? { error } : {}),
+    };
+};
+
+export const auditLog = {
+    // O_APPEND writes of a single line are atomic, so concurrent sessions cannot interleave records
+    append: async (record: AuditRecord): Promise<void> => {
+        const proc = cockpit.spawn(["sh", "-c", 'umask 077 && mkdir -p "$1" && cat >> "$2"', "--", AUDIT_LOG_DIR, AUDIT_LOG],
+                                   { superuser: "require", err: "message" });
+        proc.input(JSON.stringify(record) + "\n");
+        await proc;
+    },
+
+    // Lines that are not valid records (truncated writes, manual edits) are skipped rather than failing the whole log
+    read: async (): Promise<AuditRecord[]> => {
+        const content: string | null = await cockpit.file(AUDIT_LOG, { superuser: "try" }).read();
+        return (content || '').split('\n')
+                .filter(line => line.trim())
+                .flatMap(line => {
+                    try {
+                        return [auditRecordSchema(JSON.parse(line), '')];
+                    } catch {
+                        return [];
+                    }
+                });
+    },
+};
+
+/**
+ * Writes the audit record and ends the job once the outcome of a command is known (error is null on
+ * success). The change has already happened at this point, so a failed audit write is reported in
+ * the job's output rather than turned into a failure of the command itself.
+ */
+const endOperation = async (job: number, command: string[], error: unknown) => {
+    const exitCode = error === null ? 0 : error instanceof SmbZfsError ? error.exitCode : null;
+    const message = error === null ? undefined : error instanceof Error ? error.message : String(error);
+    try {
+        await auditLog.append(await auditRecord(command, exitCode, message));
+    } catch (err) {
+        appendOperation(job, `\n[could not write audit log ${AUDIT_LOG}: ${err instanceof Error ? err.message : String(err)}]\n`);
+    }
+    finishOperation(job, exitCode, message === undefined, error instanceof SmbZfsError ? error.stderr || error.message : message);
+};
+
+// #endregion
+
+export const smbZfsApi = {
+    // '--json' is only appended where the installed CLI lists it in the subcommand's --help
+    supportsJson: (command: string[]): boolean => detected !== null && unsupportedParts([...command, "--json"]).length === 0,
+
+    detectCapabilities: async (): Promise<SmbZfsCapabilities | null> => {
+        const [versionOutput, topHelp] = await Promise.all([helpOutput(["--version"]), helpOutput(["--help"])]);
+        const commands: Record<string, string[]> = {};
+        await Promise.all(subcommandsOf(topHelp).map(async name => {
+            const help = await helpOutput([name, "--help"]);
+            const subcommands = subcommandsOf(help);
+            if (subcommands.length === 0) {
+                commands[name] = flagsOf(help);
+                return;
+            }
+            await Promise.all(subcommands.map(async sub => {
+                commands[`${name} ${sub}`] = flagsOf(await helpOutput([name, sub, "--help"]));
+            }));
+        }));
+        detected = Object.keys(commands).length > 0
+            ? { version: versionOutput.match(/\d+(?:\.\d+)+/)?.[0] ?? null, commands }
+            : null;
+        return detected;
+    },
+
+    capabilities: (): SmbZfsCapabilities | null => detected,
+
+    // Features are assumed available until detection says otherwise, so an unreadable --help does not lock the UI
+    supports: (feature: SmbZfsFeature): boolean => unsupportedParts(SMB_ZFS_FEATURES[feature].command).length === 0,
+
+    missingFeatures: (): SmbZfsFeature[] => (Object.keys(SMB_ZFS_FEATURES) as SmbZfsFeature[])
+            .filter(feature => !smbZfsApi.supports(feature)),
+
+    // An unconfigured host is not an error: it yields a state with initialized: false
+    getState: async (): Promise<State> => {
+        const command = ["get-state"];
+        try {
+            const output = await smbZfsApi.spawnRaw(command);
+            return output.trim() ? parseOutput(stateSchema, output, command) : UNINITIALIZED_STATE;
+        } catch (err) {
+            const message = err instanceof SmbZfsError ? err.message.toLowerCase() : '';
+            if (/system not set up|run 'setup' first|not initialized/.test(message)) return UNINITIALIZED_STATE;
+            throw err;
+        }
+    },
+
+    // 'list pools' has no --json; older versions print one pool per line
+    listPools: async (): Promise<string[]> => {
+        const command = ["list", "pools"];
+        const output = await smbZfsApi.spawnRaw(command);
+        if (!output.trim()) return [];
+        if (/^\s*\[/.test(output)) return parseOutput(arrayOf(string), output, command);
+        return output.split(/\r?\n/).map(l => l.trim())
+                .filter(Boolean);
+    },
+
+    createUser: (name: string, password: string, options: CreateUserOptions = {}) =>
+        smbZfsApi.runWithPassword(smbZfsCommands.createUser(name, options), password),
+    deleteUser: (name: string, deleteData = false) => smbZfsApi.run(smbZfsCommands.deleteUser(name, deleteData)),
+    modifyHome: (user: string, quota: string) => smbZfsApi.run(smbZfsCommands.modifyHome(user, quota)),
+    setPassword: (user: string, password: string) => smbZfsApi.runWithPassword(["passwd", user], password),
+    createGroup: (name: string, options: CreateGroupOptions = {}) => smbZfsApi.run(smbZfsCommands.createGroup(name, options)),
+    modifyGroup: (name: string, options: ModifyGroupOptions) => smbZfsApi.run(smbZfsCommands.modifyGroup(name, options)),
+    deleteGroup: (name: string) => smbZfsApi.run(smbZfsCommands.deleteGroup(name)),
+    createShare: (name: string, options: CreateShareOptions) => smbZfsApi.run(smbZfsCommands.createShare(name, options)),
+    modifyShare: (name: string, options: ShareOptions) => smbZfsApi.run(smbZfsCommands.modifyShare(name, options)),
+    deleteShare: (name: string, deleteData = false) => smbZfsApi.run(smbZfsCommands.deleteShare(name, deleteData)),
+    setup: (options: SetupOptions) => smbZfsApi.run(smbZfsCommands.setup(options)),
+    modifySetup: (options: ModifySetupOptions) => smbZfsApi.run(smbZfsCommands.modifySetup(options)),
+
+    // Runs an argv built elsewhere (replay plans, drift repairs); prefer the typed methods above
+    run: (command: string[]): Promise<SmbZfsOutput> => smbZfsApi.spawn(command),
+
+    // Secure input for password-bearing commands: the password never goes into argv (visible in ps
+    // and process accounting), it is written to stdin twice, answering the password and confirm prompts
+    runWithPassword: (command: string[], password: string): Promise<SmbZfsOutput> => {
+        if (command.some(arg => SECRET_FLAGS.includes(arg))) {
+            return Promise.reject(new SmbZfsError("Passwords must not be passed as command-line arguments.", command));
+        }
+        return smbZfsApi.spawn(command, password + "\n" + password + "\n");
+    },
+
+    spawn: async (command: string[], input?: string): Promise<SmbZfsOutput> => {
+        const unsupported = unsupportedParts(command);
+        if (unsupported.length > 0) {
+            const version = detected?.version ? ` ${detected.version}` : '';
+            throw new SmbZfsError(`The installed smb-zfs${version} does not support: ${unsupported.join(', ')}.`, command);
+        }
+        const json = smbZfsApi.supportsJson(command);
+        // Mutating commands are recorded in the operations log and the audit log
+        const job = MUTATING_COMMANDS.includes(command[0]) ? startOperation(command) : null;
+        try {
+            const output = await smbZfsApi.spawnRaw(json ? [...command, "--json"] : command, input,
+                                                    job !== null ? chunk => appendOperation(job, chunk) : undefined);
+            const result = json && output.trim() ? parseOutput(jsonResultSchema, output, command) : null;
+            if (typeof result?.error === 'string') throw new SmbZfsError(result.error, command, { exitCode: 0 });
+            if (job !== null) await endOperation(job, command, null);
+            return json ? result : output.trim() || null;
+        } catch (err) {
+            if (job !== null) await endOperation(job, command, err);
+            throw err;
+        }
+    },
+
+    // Resolves to stdout; a failed process rejects with its exit code, stderr and the CLI's message.
+    // With --json the CLI reports errors on stdout even when it exits non-zero, so that is checked first.
+    // onOutput receives stdout as it arrives; cockpit only hands over stderr together with the exit
+    // status, so it ends up in the error.
+    spawnRaw: (command: string[], input?: string, onOutput?: (chunk: string) => void): Promise<string> => new Promise((resolve, reject) => {
+        const mutating = MUTATING_COMMANDS.includes(command[0]);
+        const proc = cockpit.spawn(["smb-zfs", ...command], { err: "message", ...(mutating ? { superuser: "require" } : {}) });
+        // Once streamed, cockpit no longer buffers stdout for then(), so it is collected here for both outcomes
+        let stdout = '';
+        proc.stream((chunk: string) => {
+            stdout += chunk;
+            onOutput?.(chunk);
+        });
+        if (input !== undefined) proc.input(input);
+        proc.then(
+            () => resolve(stdout),
+            (ex: CockpitProcessError) => {
+                const stderr = ex.exit_status !== undefined && ex.exit_status !== null ? ex.message || '' : '';
+                let message = cliMessage(stderr);
+                try {
+                    const reported = stdout ? JSON.parse(stdout) : null;
+                    if (isObject(reported) && typeof reported.error === 'string') message = reported.error;
+                } catch {
+                    // stdout is not JSON; the stderr message stands
+                }
+                reject(new SmbZfsError(message || ex.message || ex.problem || `smb-zfs ${command[0]} failed`, command, {
+                    exitCode: ex.exit_status ?? null,
+                    stderr,
+                }));
+            });
+    }),
+};
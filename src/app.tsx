@@ -1,6 +1,8 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useSyncExternalStore } from "react";
 import cockpit from "cockpit";
-import { DatasetSelect, UsersSelect, GroupsSelect, PoolSelect } from "./selectors";
+import yaml from "js-yaml";
+import { DatasetBrowser, UsersSelect, GroupsSelect, PoolSelect, StringListSelect } from "./selectors";
+import { smbZfsApi, smbZfsCommands, stateSchema, auditLog, AUDIT_LOG, AuditRecord, operationsLog, redactCommand, OperationJob, OperationStatus, SMB_ZFS_FEATURES, SmbZfsCapabilities, State, UserData, GroupData, ShareData, ShareOptions } from "./api";
 import {
     Alert,
     Button,
@@ -16,6 +18,7 @@ import {
     ModalVariant,
     Page,
     PageSection,
+    Progress,
     Spinner,
     Tab,
     Tabs,
@@ -27,162 +30,1505 @@ import {
     Content,
     FormHelperText,
     HelperText,
-    HelperTextItem
+    HelperTextItem,
+    Label,
+    Radio,
+    TextArea,
+    DrawerActions,
+    DrawerCloseButton,
+    DrawerHead,
+    DrawerPanelBody,
+    ExpandableSection
 } from "@patternfly/react-core";
-import { ExclamationTriangleIcon } from "@patternfly/react-icons";
+import { ExclamationTriangleIcon, LongArrowAltDownIcon, LongArrowAltUpIcon, ArrowsAltVIcon } from "@patternfly/react-icons";
 
 // Type definitions (keeping existing ones)
-interface UserData {
-    shell_access: boolean;
-    groups: string[];
-    created: string;
-    dataset?: {
-        name: string;
-        quota?: string;
-        pool: string;
-    };
+interface ShareAccessGrant {
+    everyone: boolean; // the share has no valid users restriction
+    direct: boolean; // the user is listed by name
+    groups: string[]; // @group entries that contain the user
 }
 
-interface GroupData {
-    description?: string;
-    members: string[];
-    created: string;
+type AccessLevel = 'none' | 'read' | 'write';
+
+interface EffectiveAccess {
+    level: AccessLevel;
+    reasons: string[];
 }
 
-interface ShareData {
-    dataset: {
-        name: string;
-        quota?: string;
-        pool: string;
-    };
-    smb_config: {
-        comment?: string;
-        browseable: boolean;
-        read_only: boolean;
-        valid_users?: string;
-    };
-    system: {
-        owner: string;
-        group: string;
-        permissions: string;
-    };
-    created: string;
+interface DatasetUsage {
+    used: number; // bytes
+    available: number; // bytes
+    referenced: number; // bytes
+    quota: number; // bytes, 0 when no quota is set
+    mountpoint: string;
+}
+
+interface DirectoryEntry {
+    name: string;
+    type: string; // find(1) %y: 'd' directory, 'f' file, 'l' symlink, ...
+    size: number;
+    mtime: number; // seconds since epoch
+}
+
+interface SnapshotData {
+    name: string; // full name, e.g. "pool/ds@snap"
+    snapshot: string; // part after '@'
+    creation: number; // seconds since epoch
+    used: number; // bytes
+    referenced: number; // bytes
+    userrefs: number; // number of holds
+}
+
+// API Wrapper for plain zfs commands that smb-zfs does not cover (snapshots)
+const zfsApi = {
+    listSnapshots: (dataset: string): Promise<SnapshotData[]> =>
+        cockpit.spawn([
+            "zfs", "list", "-H", "-p", "-t", "snapshot", "-d", "1", "-s", "creation",
+            "-o", "name,creation,used,referenced,userrefs", dataset
+        ], { err: "message" })
+                .then((output: string) => output.split(/\r?\n/)
+                        .filter(Boolean)
+                        .map(line => {
+                            const [name, creation, used, referenced, userrefs] = line.split("\t");
+                            return {
+                                name,
+                                snapshot: name.slice(name.indexOf("@") + 1),
+                                creation: Number(creation) || 0,
+                                used: Number(used) || 0,
+                                referenced: Number(referenced) || 0,
+                                userrefs: Number(userrefs) || 0,
+                            };
+                        })),
+
+    listHolds: (snapshot: string): Promise<string[]> =>
+        cockpit.spawn(["zfs", "holds", "-H", snapshot], { err: "message" })
+                .then((output: string) => output.split(/\r?\n/)
+                        .filter(Boolean)
+                        .map(line => line.split("\t")[1])
+                        .filter(Boolean)),
+
+    getUsage: (datasets: string[]): Promise<Record<string, DatasetUsage>> => {
+        if (datasets.length === 0) return Promise.resolve({});
+        return cockpit.spawn([
+            "zfs", "get", "-H", "-p", "-o", "name,property,value",
+            "used,available,referenced,quota,mountpoint", ...datasets
+        ], { err: "message" })
+                .then((output: string) => {
+                    const usage: Record<string, DatasetUsage> = {};
+                    for (const line of output.split(/\r?\n/).filter(Boolean)) {
+                        const [name, property, value] = line.split("\t");
+                        const entry = usage[name] || { used: 0, available: 0, referenced: 0, quota: 0, mountpoint: "" };
+                        if (property === "mountpoint") {
+                            entry.mountpoint = value;
+                        } else if (property === "used" || property === "available" || property === "referenced" || property === "quota") {
+                            entry[property] = Number(value) || 0;
+                        }
+                        usage[name] = entry;
+                    }
+                    return usage;
+                });
+    },
+
+    // Snapshot contents are browsed through the read-only .zfs/snapshot directory, as the
+    // logged in user so that normal file permissions apply
+    snapshotPath: (mountpoint: string, snapshot: SnapshotData, relPath = "") =>
+        [mountpoint, ".zfs", "snapshot", snapshot.snapshot, relPath].filter(Boolean).join("/"),
+
+    listDirectory: (path: string): Promise<DirectoryEntry[]> =>
+        cockpit.spawn(["find", path, "-mindepth", "1", "-maxdepth", "1", "-printf", "%y\t%s\t%T@\t%f\n"], { err: "message" })
+                .then((output: string) => output.split("\n")
+                        .filter(Boolean)
+                        .map(line => {
+                            const [type, size, mtime, ...name] = line.split("\t");
+                            return { name: name.join("\t"), type, size: Number(size) || 0, mtime: Number(mtime) || 0 };
+                        })
+                        .sort((a, b) => (a.type === 'd' ? 0 : 1) - (b.type === 'd' ? 0 : 1) || a.name.localeCompare(b.name))),
+
+    restoreFromSnapshot: (source: string, target: string): Promise<string> =>
+        cockpit.spawn(["cp", "-a", "-T", "--", source, target], { err: "message" }),
+
+    run: (command: string[]): Promise<string> =>
+        cockpit.spawn(["zfs", ...command], { superuser: "require", err: "message" }),
+
+    createSnapshot: (dataset: string, name: string, recursive = false) =>
+        zfsApi.run(["snapshot", ...(recursive ? ["-r"] : []), `${dataset}@${name}`]),
+    destroySnapshot: (snapshot: string) => zfsApi.run(["destroy", snapshot]),
+    renameSnapshot: (snapshot: string, newName: string) =>
+        zfsApi.run(["rename", snapshot, `${snapshot.slice(0, snapshot.indexOf("@"))}@${newName}`]),
+    holdSnapshot: (snapshot: string, tag: string) => zfsApi.run(["hold", tag, snapshot]),
+    releaseSnapshot: (snapshot: string, tag: string) => zfsApi.run(["release", tag, snapshot]),
+    // -r destroys every snapshot newer than the target, which the UI must confirm first
+    rollbackSnapshot: (snapshot: string) => zfsApi.run(["rollback", "-r", snapshot]),
+};
+
+interface VdevStatus {
+    name: string;
+    state: string;
+    read: string;
+    write: string;
+    cksum: string;
+    depth: number;
+}
+
+interface PoolStatus {
+    name: string;
+    health: string;
+    size: number;
+    allocated: number;
+    free: number;
+    capacity: number;
+    fragmentation: number | null;
+    status: string;
+    action: string;
+    scan: string;
+    errors: string;
+    vdevs: VdevStatus[];
 }
 
-interface State {
-    initialized: boolean;
-    primary_pool?: string;
-    secondary_pools?: string[];
-    server_name?: string;
-    workgroup?: string;
-    macos_optimized?: boolean;
-    default_home_quota?: string;
-    users?: Record<string, UserData>;
-    groups?: Record<string, GroupData>;
-    shares?: Record<string, ShareData>;
-}
-
-// API Wrapper for smb-zfs commands (keeping existing)
-const smbZfsApi = {
-    // Determine if '--json' is supported for the given command vector (after "smb-zfs")
-    // Based on provided bash completion:
-    // Allowed: setup, create (user|share|group), modify (group|share|home|setup),
-    //          delete (user|share|group), passwd, remove
-    // Not allowed: list, get-state, wizard, and global.
-    supportsJson(cmd: string[]): boolean {
-        const [c1, c2] = cmd;
-        if (!c1) return false;
-        switch (c1) {
-            case "setup":
-                return true;
-            case "create":
-                return ["user", "share", "group"].includes(c2 || "");
-            case "modify":
-                // group|share|home subcommands support --json; 'setup' as sub-sub also supports
-                return ["group", "share", "home", "setup"].includes(c2 || "");
-            case "delete":
-                return ["user", "share", "group"].includes(c2 || "");
-            case "passwd":
-                return true;
-            case "remove":
-                return true;
-            case "list":
-            case "get-state":
-            case "wizard":
-            default:
-                return false;
+const POOL_STATUS_KEYS = ["pool", "state", "status", "action", "see", "scan", "config", "errors"];
+
+// Splits 'zpool status' into its "key: value" paragraphs and the vdev table under config
+const parsePoolStatus = (output: string) => {
+    const fields: Record<string, string> = {};
+    const vdevs: VdevStatus[] = [];
+    let key = "";
+    for (const line of output.split("\n")) {
+        const m = line.match(/^\s*(\w+):\s?(.*)$/);
+        if (m && POOL_STATUS_KEYS.includes(m[1])) {
+            key = m[1];
+            fields[key] = m[2].trim();
+        } else if (key === "config") {
+            const row = line.match(/^\t( *)(\S+)(?:\s+(\S+)\s+(\S+)\s+(\S+)\s+(\S+))?/);
+            if (row && row[2] !== "NAME") {
+                vdevs.push({ name: row[2], state: row[3] || "", read: row[4] || "", write: row[5] || "", cksum: row[6] || "", depth: row[1].length / 2 });
+            }
+        } else if (key && line.trim()) {
+            fields[key] = `${fields[key]} ${line.trim()}`.trim();
         }
+    }
+    return { fields, vdevs };
+};
+
+const zpoolApi = {
+    getPools: (pools: string[]): Promise<PoolStatus[]> =>
+        cockpit.spawn(["zpool", "list", "-H", "-p", "-o", "name,size,alloc,free,frag,cap,health", ...pools], { superuser: "try", err: "message" })
+                .then((output: string) => Promise.all(output.split("\n")
+                        .filter(Boolean)
+                        .map(line => {
+                            const [name, size, alloc, free, frag, cap, health] = line.split("\t");
+                            return zpoolApi.getStatus(name).then(({ fields, vdevs }) => ({
+                                name,
+                                health,
+                                size: Number(size) || 0,
+                                allocated: Number(alloc) || 0,
+                                free: Number(free) || 0,
+                                capacity: Number(cap) || 0,
+                                fragmentation: frag === "-" ? null : Number(frag),
+                                status: fields.status || "",
+                                action: fields.action || "",
+                                scan: fields.scan || "",
+                                errors: fields.errors || "",
+                                vdevs,
+                            }));
+                        }))),
+
+    getStatus: (pool: string): Promise<ReturnType<typeof parsePoolStatus>> =>
+        cockpit.spawn(["zpool", "status", pool], { superuser: "try", err: "message" })
+                .then(parsePoolStatus),
+
+    isScrubbing: (pool: PoolStatus) => /scrub in progress/.test(pool.scan),
+
+    startScrub: (pool: string): Promise<string> =>
+        cockpit.spawn(["zpool", "scrub", pool], { superuser: "require", err: "message" }),
+    stopScrub: (pool: string): Promise<string> =>
+        cockpit.spawn(["zpool", "scrub", "-s", pool], { superuser: "require", err: "message" }),
+};
+
+type SnapshotFrequency = 'hourly' | 'daily' | 'weekly' | 'monthly';
+const SNAPSHOT_FREQUENCIES: SnapshotFrequency[] = ['hourly', 'daily', 'weekly', 'monthly'];
+
+interface SnapshotSchedule {
+    dataset: string;
+    recursive: boolean; // pool-wide defaults snapshot the whole dataset tree
+    retention: Partial<Record<SnapshotFrequency, number>>; // keep-count per enabled frequency
+}
+
+interface ScheduleStatus {
+    active: string;
+    nextRun: string;
+    lastRun: string;
+    lastResult: string;
+}
+
+// Automatic snapshots are named "autosnap-<label>_GMT-<UTC time>" so that they can be
+// pruned per label and exposed through vfs_shadow_copy2 (snapprefix + format).
+const AUTOSNAP_PREFIX = "autosnap-";
+const AUTOSNAP_TIME_FORMAT = "_GMT-%Y.%m.%d-%H.%M.%S";
+const AUTOSNAP_CONFIG = "/etc/smb-zfs/autosnap.json";
+const AUTOSNAP_SCRIPT = "/usr/local/libexec/smb-zfs-autosnap";
+const SYSTEMD_UNIT_DIR = "/etc/systemd/system";
+
+const AUTOSNAP_SCRIPT_CONTENT = `#!/bin/sh
+# Managed by cockpit-smb-zfs, do not edit.
+# Usage: smb-zfs-autosnap DATASET LABEL KEEP [recursive]
+# Takes a snapshot of DATASET and destroys all but the newest KEEP snapshots with the same LABEL.
+# Held snapshots (userrefs > 0) are neither counted nor destroyed; a snapshot that cannot be
+# destroyed is reported and the rest are still pruned, the unit fails at the end.
+set -eu
+dataset="$1"
+label="$2"
+keep="$3"
+flags=""
+if [ "\${4:-}" = "recursive" ]; then flags="-r"; fi
+
+zfs snapshot $flags "\${dataset}@${AUTOSNAP_PREFIX}\${label}$(date -u +${AUTOSNAP_TIME_FORMAT})"
+zfs list -H -t snapshot -o name,userrefs -s creation -d 1 "$dataset" |
+    awk -F '\\t' -v prefix="@${AUTOSNAP_PREFIX}\${label}_GMT-" 'index($1, prefix) && $2 == 0 { print $1 }' |
+    head -n "-\${keep}" |
+    {
+        status=0
+        while read -r snap; do
+            zfs destroy $flags "$snap" || { echo "could not destroy $snap" >&2; status=1; }
+        done
+        exit $status
+    }
+`;
+
+// Same escaping as systemd-escape(1), so unit names stay unique for every dataset name
+const systemdEscape = (value: string): string => {
+    const escaped = Array.from(value).map((c, i) => {
+        if (c === '/') return '-';
+        if (/[A-Za-z0-9:_]/.test(c) || (c === '.' && i > 0)) return c;
+        const hex = c.charCodeAt(0).toString(16);
+        return `\\x${hex.padStart(2, '0')}`;
+    });
+    return escaped.join('');
+};
+
+const autosnapApi = {
+    label: (schedule: SnapshotSchedule, frequency: SnapshotFrequency) =>
+        schedule.recursive ? `pool-${frequency}` : frequency,
+
+    unitName: (dataset: string, frequency: SnapshotFrequency) =>
+        `smb-zfs-autosnap-${frequency}-${systemdEscape(dataset)}`,
+
+    loadSchedules: (): Promise<SnapshotSchedule[]> =>
+        cockpit.file(AUTOSNAP_CONFIG, { syntax: JSON, superuser: "try" }).read()
+                .then((content: { schedules?: SnapshotSchedule[] } | null) => content?.schedules || []),
+
+    getStatus: (dataset: string, frequency: SnapshotFrequency): Promise<ScheduleStatus> => {
+        const unit = autosnapApi.unitName(dataset, frequency);
+        return cockpit.spawn([
+            "systemctl", "show", `${unit}.timer`, `${unit}.service`,
+            "-p", "ActiveState", "-p", "NextElapseUSecRealtime", "-p", "LastTriggerUSec", "-p", "Result"
+        ], { err: "message" })
+                .then((output: string) => {
+                    // systemctl prints one block per unit, separated by an empty line
+                    const [timer, service] = output.split(/\r?\n\r?\n/).map(block => Object.fromEntries(
+                        block.split(/\r?\n/)
+                                .filter(line => line.includes('='))
+                                .map(line => [line.slice(0, line.indexOf('=')), line.slice(line.indexOf('=') + 1)])
+                    ));
+                    return {
+                        active: timer?.ActiveState || 'unknown',
+                        nextRun: timer?.NextElapseUSecRealtime || '-',
+                        lastRun: timer?.LastTriggerUSec || 'never',
+                        lastResult: timer?.LastTriggerUSec ? (service?.Result || 'unknown') : '-',
+                    };
+                });
     },
 
-    getState: (): Promise<State> =>
-        cockpit.spawn(["smb-zfs", "get-state"])
-            .then(output => {
-                if (!output) return {} as any;
-                // get-state has no --json; attempt JSON first, fallback to error or text
-                try {
-                    return JSON.parse(output);
-                } catch {
-                    if (output.toLowerCase().startsWith("error:")) {
-                        throw new Error(output);
-                    }
-                    // If tool prints non-JSON state in some versions, treat as error for our UI
-                    throw new Error("Failed to parse state output");
-                }
-            }),
-
-    listPools: (): Promise<string[]> =>
-        cockpit.spawn(["smb-zfs", "list", "pools"])
-            .then(output => {
-                if (!output) return [];
-                // list pools doesn't advertise --json; try JSON then fallback to line parsing
-                try {
-                    return JSON.parse(output);
-                } catch {
-                    if (output.toLowerCase().startsWith("error:")) {
-                        throw new Error(output);
-                    }
-                    // Fallback: parse one pool per line
-                    const lines = output.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
-                    return lines;
-                }
-            }),
+    writeUnits: (schedule: SnapshotSchedule, frequency: SnapshotFrequency, keep: number) => {
+        const unit = autosnapApi.unitName(schedule.dataset, frequency);
+        const description = `smb-zfs ${frequency} snapshot of ${schedule.dataset}`;
+        const args = [schedule.dataset, autosnapApi.label(schedule, frequency), String(keep)];
+        if (schedule.recursive) args.push("recursive");
+        const service = [
+            "# Managed by cockpit-smb-zfs, do not edit.",
+            "[Unit]",
+            `Description=${description}`,
+            "",
+            "[Service]",
+            "Type=oneshot",
+            `ExecStart=${AUTOSNAP_SCRIPT} ${args.map(a => `"${a}"`).join(" ")}`,
+            "",
+        ].join("\n");
+        const timer = [
+            "# Managed by cockpit-smb-zfs, do not edit.",
+            "[Unit]",
+            `Description=${description}`,
+            "",
+            "[Timer]",
+            `OnCalendar=${frequency}`,
+            "Persistent=true",
+            "",
+            "[Install]",
+            "WantedBy=timers.target",
+            "",
+        ].join("\n");
+        return Promise.all([
+            cockpit.file(`${SYSTEMD_UNIT_DIR}/${unit}.service`, { superuser: "require" }).replace(service),
+            cockpit.file(`${SYSTEMD_UNIT_DIR}/${unit}.timer`, { superuser: "require" }).replace(timer),
+        ]);
+    },
+
+    removeUnits: (dataset: string, frequency: SnapshotFrequency) => {
+        const unit = autosnapApi.unitName(dataset, frequency);
+        return cockpit.spawn(["systemctl", "disable", "--now", `${unit}.timer`], { superuser: "require", err: "ignore" })
+                .catch(() => null)
+                .then(() => Promise.all([
+                    cockpit.file(`${SYSTEMD_UNIT_DIR}/${unit}.service`, { superuser: "require" }).replace(null),
+                    cockpit.file(`${SYSTEMD_UNIT_DIR}/${unit}.timer`, { superuser: "require" }).replace(null),
+                ]));
+    },
 
-    run: (command: string[]): Promise<unknown> => {
-        const mutating = ["create", "modify", "delete", "passwd", "remove", "setup"].includes(command[0]);
-        const args = ["smb-zfs", ...command];
-        if (smbZfsApi.supportsJson(command)) {
-            args.push("--json");
+    // Stores the schedule in the config file and (re)materialises its timers; an empty
+    // retention removes the schedule and all of its units.
+    saveSchedule: async (schedule: SnapshotSchedule): Promise<void> => {
+        await cockpit.spawn(["mkdir", "-p", "/etc/smb-zfs", "/usr/local/libexec"], { superuser: "require", err: "message" });
+        await cockpit.file(AUTOSNAP_SCRIPT, { superuser: "require" }).replace(AUTOSNAP_SCRIPT_CONTENT);
+        await cockpit.spawn(["chmod", "0755", AUTOSNAP_SCRIPT], { superuser: "require", err: "message" });
+
+        const enabled = SNAPSHOT_FREQUENCIES.filter(f => (schedule.retention[f] || 0) > 0);
+        for (const frequency of SNAPSHOT_FREQUENCIES) {
+            if (enabled.includes(frequency)) {
+                await autosnapApi.writeUnits(schedule, frequency, schedule.retention[frequency] as number);
+            } else {
+                await autosnapApi.removeUnits(schedule.dataset, frequency);
+            }
         }
-        return cockpit
-            .spawn(args, mutating ? { superuser: "require" } : undefined)
-            .then(output => {
-                if (!output) return null;
-                // If we requested JSON, parse; otherwise, be tolerant
-                if (args.includes("--json")) {
-                    const result = JSON.parse(output);
-                    if ((result as any)?.error) {
-                        throw new Error((result as any).error);
+        await cockpit.spawn(["systemctl", "daemon-reload"], { superuser: "require", err: "message" });
+        if (enabled.length > 0) {
+            await cockpit.spawn(["systemctl", "enable", "--now", ...enabled.map(f => `${autosnapApi.unitName(schedule.dataset, f)}.timer`)],
+                                { superuser: "require", err: "message" });
+        }
+
+        await cockpit.file(AUTOSNAP_CONFIG, { syntax: JSON, superuser: "require" })
+                .modify((content: { schedules?: SnapshotSchedule[] } | null) => {
+                    const others = (content?.schedules || []).filter(s => s.dataset !== schedule.dataset);
+                    return { version: 1, schedules: enabled.length > 0 ? [...others, schedule] : others };
+                });
+    },
+};
+
+// Previous Versions are provided by a managed vfs_shadow_copy2 block inside the share's
+// smb.conf section, matching the naming of the automatic snapshots above.
+const SMB_CONF = "/etc/samba/smb.conf";
+const SHADOW_COPY_BEGIN = "# BEGIN cockpit-smb-zfs previous versions";
+const SHADOW_COPY_END = "# END cockpit-smb-zfs previous versions";
+const SHADOW_COPY_SNAPSHOT_RE = /^autosnap-[a-z-]+_GMT-\d{4}\.\d{2}\.\d{2}-\d{2}\.\d{2}\.\d{2}$/;
+
+const shadowCopyBlock = (vfsObjects: string[]): string[] => [
+    SHADOW_COPY_BEGIN,
+    `vfs objects = ${['shadow_copy2', ...vfsObjects.filter(o => o !== 'shadow_copy2')].join(' ')}`,
+    "shadow:snapdir = .zfs/snapshot",
+    "shadow:sort = desc",
+    "shadow:localtime = no",
+    // Samba compiles snapprefix as a POSIX basic regex, where '+' is a literal character
+    `shadow:snapprefix = ^${AUTOSNAP_PREFIX}[a-z-]*$`,
+    "shadow:delimiter = _GMT",
+    `shadow:format = ${AUTOSNAP_TIME_FORMAT}`,
+    SHADOW_COPY_END,
+];
+
+const isSectionHeader = (line: string) => /^\s*\[[^\]]+\]/.test(line);
+const sectionName = (line: string) => {
+    const header = line.trim();
+    const name = header.slice(1, header.indexOf(']'));
+    return name.trim().toLowerCase();
+};
+
+// Replaces (or removes, when block is null) the managed block of one share section
+const rewriteShadowCopyBlock = (content: string, share: string, block: string[] | null): string => {
+    const lines = content.split('\n');
+    const start = lines.findIndex(l => isSectionHeader(l) && sectionName(l) === share.toLowerCase());
+    if (start < 0) throw new Error(`Share [${share}] not found in ${SMB_CONF}`);
+    let end = lines.findIndex((l, i) => i > start && isSectionHeader(l));
+    if (end < 0) end = lines.length;
+
+    let section = lines.slice(start + 1, end);
+    const begin = section.findIndex(l => l.trim() === SHADOW_COPY_BEGIN);
+    const finish = section.findIndex(l => l.trim() === SHADOW_COPY_END);
+    if (begin >= 0 && finish > begin) section.splice(begin, finish - begin + 1);
+
+    if (block) {
+        // keep blank lines that separate sections after the inserted block
+        let last = section.length;
+        while (last > 0 && section[last - 1].trim() === '') last--;
+        const indent = section.find(l => l.trim())?.match(/^\s*/)?.[0] ?? '    ';
+        section = [...section.slice(0, last), ...block.map(l => indent + l), ...section.slice(last)];
+    }
+
+    return [...lines.slice(0, start + 1), ...section, ...lines.slice(end)].join('\n');
+};
+
+const shadowCopyApi = {
+    listEnabled: (): Promise<string[]> =>
+        cockpit.file(SMB_CONF, { superuser: "try" }).read()
+                .then((content: string | null) => {
+                    const shares: string[] = [];
+                    let current: string | null = null;
+                    for (const line of (content || '').split('\n')) {
+                        if (isSectionHeader(line)) current = sectionName(line);
+                        else if (current && line.trim() === SHADOW_COPY_BEGIN) shares.push(current);
                     }
-                    return result;
+                    return shares;
+                }),
+
+    setEnabled: async (share: string, enabled: boolean): Promise<void> => {
+        let vfsObjects: string[] = [];
+        if (enabled) {
+            // A share-level 'vfs objects' replaces the global one, so keep what is effective today (e.g. fruit)
+            const output: string = await cockpit.spawn(["testparm", "-s", "--section-name", share, "--parameter-name", "vfs objects"],
+                                                       { err: "ignore" }).catch(() => "");
+            vfsObjects = output.split(/\s+/).filter(Boolean);
+        }
+        await cockpit.file(SMB_CONF, { superuser: "require" })
+                .modify((content: string | null) => rewriteShadowCopyBlock(content || '', share, enabled ? shadowCopyBlock(vfsObjects) : null));
+        await cockpit.spawn(["smbcontrol", "all", "reload-config"], { superuser: "require", err: "ignore" })
+                .catch(() => null);
+    },
+};
+
+const BACKUP_FORMAT = "cockpit-smb-zfs-backup";
+const BACKUP_VERSION = 1;
+
+interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    created: string;
+    host: string;
+    state: State;
+}
+
+// One item of a replay plan; 'conflict' is set when the item already exists on this host
+interface PlanStep {
+    key: string;
+    kind: 'setup' | 'group' | 'user' | 'share';
+    name: string;
+    commands: string[][];
+    conflict?: string;
+    updateCommands?: string[][] | null;
+    // Fed over stdin to the first of 'commands' (a 'create user'), never put into argv
+    password?: string;
+    // After 'commands' created the user, its Samba account is flagged to change the password at next logon
+    mustChangePassword?: boolean;
+}
+
+type PlanStepStatus = 'pending' | 'running' | 'done' | 'skipped' | { error: string };
+
+// Conflicting steps run nothing unless the user chose to update the existing item
+const planStepCommands = (step: PlanStep, resolution: 'skip' | 'update' = 'skip'): string[][] => {
+    if (!step.conflict) return step.commands;
+    return resolution === 'update' ? step.updateCommands || [] : [];
+};
+
+// Runs the steps in order and stops at the first failure; resolves to whether every step succeeded.
+// onCreated reports each account created with a password, even when a later command of its step fails,
+// so that the temporary password is never lost.
+const runPlan = async (
+    steps: PlanStep[],
+    resolutions: Record<string, 'skip' | 'update'>,
+    onStatus: (key: string, status: PlanStepStatus) => void,
+    onCreated?: (step: PlanStep) => void
+): Promise<boolean> => {
+    for (const step of steps) {
+        const commands = planStepCommands(step, resolutions[step.key]);
+        if (commands.length === 0) {
+            onStatus(step.key, 'skipped');
+            continue;
+        }
+        onStatus(step.key, 'running');
+        try {
+            for (const [i, command] of commands.entries()) {
+                if (i === 0 && commands === step.commands && step.password !== undefined) {
+                    await smbZfsApi.runWithPassword(command, step.password);
+                    onCreated?.(step);
                 } else {
-                    try {
-                        const result = JSON.parse(output);
-                        if ((result as any)?.error) {
-                            throw new Error((result as any).error);
-                        }
-                        return result;
-                    } catch {
-                        if (output.toLowerCase().startsWith("error:")) {
-                            throw new Error(output);
-                        }
-                        return output;
-                    }
+                    await smbZfsApi.run(command);
                 }
+            }
+            if (commands === step.commands && step.mustChangePassword) await sambaApi.setMustChangePassword(step.name, true);
+            onStatus(step.key, 'done');
+        } catch (err) {
+            onStatus(step.key, { error: err instanceof Error ? err.message : String(err) });
+            return false;
+        }
+    }
+    return true;
+};
+
+const createShareCommand = (name: string, share: ShareData): string[] => {
+    const { dataset, smb_config: smb, system } = share;
+    return smbZfsCommands.createShare(name, {
+        dataset: dataset.name.slice(dataset.pool.length + 1),
+        pool: dataset.pool,
+        ...(smb.comment ? { comment: smb.comment } : {}),
+        ...(system.owner ? { owner: system.owner } : {}),
+        ...(system.group ? { group: system.group } : {}),
+        ...(system.permissions ? { permissions: system.permissions } : {}),
+        ...(smb.valid_users ? { validUsers: smb.valid_users } : {}),
+        ...(dataset.quota ? { quota: dataset.quota } : {}),
+        readOnly: smb.read_only,
+        browseable: smb.browseable,
+    });
+};
+
+const modifyShareCommand = (name: string, share: ShareData): string[] => smbZfsCommands.modifyShare(name, {
+    comment: share.smb_config.comment || '',
+    owner: share.system.owner,
+    group: share.system.group,
+    permissions: share.system.permissions,
+    validUsers: share.smb_config.valid_users || '',
+    readOnly: share.smb_config.read_only,
+    browseable: share.smb_config.browseable,
+    quota: share.dataset.quota || 'none',
+});
+
+// Minimal calls to move from one membership to another: a single 'modify group' per changed group,
+// adding and removing members in the same call. Both maps are keyed by group name.
+const membershipCommands = (before: Record<string, string[]>, after: Record<string, string[]>): string[][] =>
+    Object.entries(after).flatMap(([group, members]) => {
+        const current = before[group] || [];
+        const added = members.filter(u => !current.includes(u));
+        const removed = current.filter(u => !members.includes(u));
+        if (added.length === 0 && removed.length === 0) return [];
+        return [smbZfsCommands.modifyGroup(group, { addUsers: added, removeUsers: removed })];
+    });
+
+const backupApi = {
+    create: (state: State): BackupFile => ({
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        created: new Date().toISOString(),
+        host: state.server_name || window.location.hostname,
+        state: {
+            initialized: true,
+            primary_pool: state.primary_pool,
+            secondary_pools: state.secondary_pools,
+            server_name: state.server_name,
+            workgroup: state.workgroup,
+            macos_optimized: state.macos_optimized,
+            default_home_quota: state.default_home_quota,
+            users: state.users,
+            groups: state.groups,
+            shares: state.shares,
+        } as State,
+    }),
+
+    parse: (text: string): BackupFile => {
+        let data: Partial<BackupFile>;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            throw new Error("The file is not valid JSON.");
+        }
+        if (data?.format !== BACKUP_FORMAT) throw new Error("The file is not an smb-zfs backup.");
+        if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+            throw new Error(`Backup version ${data.version} is not supported by this version of the plugin.`);
+        }
+        if (!data.state) throw new Error("The backup does not contain a complete configuration.");
+        // Hand-edited or truncated files must fail here, not while the restore plan is rendered
+        let state: State;
+        try {
+            state = stateSchema(data.state, 'state');
+        } catch (err) {
+            throw new Error(`The backup is damaged: ${err instanceof Error ? err.message : String(err)}.`);
+        }
+        if (!state.primary_pool) throw new Error("The backup does not contain a complete configuration.");
+        return { ...data, state } as BackupFile;
+    },
+
+    // Groups come before users (which join them) and users before shares (which they own)
+    plan: (backup: State, current: State | null, passwordFor: (user: string) => string): PlanStep[] => {
+        const steps: PlanStep[] = [];
+
+        const setup = smbZfsCommands.setup({
+            primaryPool: backup.primary_pool || '',
+            secondaryPools: backup.secondary_pools || [],
+            serverName: backup.server_name || '',
+            workgroup: backup.workgroup || '',
+            macos: Boolean(backup.macos_optimized),
+            defaultHomeQuota: backup.default_home_quota || '',
+        });
+        if (!current?.initialized) {
+            steps.push({ key: 'setup', kind: 'setup', name: 'Server setup', commands: [setup] });
+        } else {
+            const modify = smbZfsCommands.modifySetup({
+                ...(backup.server_name && backup.server_name !== current.server_name ? { serverName: backup.server_name } : {}),
+                ...(backup.workgroup && backup.workgroup !== current.workgroup ? { workgroup: backup.workgroup } : {}),
+                ...(Boolean(backup.macos_optimized) !== Boolean(current.macos_optimized) ? { macos: Boolean(backup.macos_optimized) } : {}),
+                ...((backup.default_home_quota || '') !== (current.default_home_quota || '')
+                    ? { defaultHomeQuota: backup.default_home_quota || 'none' }
+                    : {}),
+                addSecondaryPools: (backup.secondary_pools || []).filter(p => !current.secondary_pools?.includes(p)),
+            });
+            steps.push({
+                key: 'setup',
+                kind: 'setup',
+                name: 'Server setup',
+                commands: [setup],
+                conflict: backup.primary_pool === current.primary_pool
+                    ? 'This host is already set up.'
+                    : `This host is already set up with primary pool ${current.primary_pool}, which cannot be changed.`,
+                updateCommands: modify.length > 2 ? [modify] : null,
+            });
+        }
+
+        for (const [name, group] of Object.entries(backup.groups || {})) {
+            const command = smbZfsCommands.createGroup(name, group.description ? { description: group.description } : {});
+            steps.push({
+                key: `group:${name}`,
+                kind: 'group',
+                name,
+                commands: [command],
+                ...(current?.groups?.[name] ? { conflict: 'Group already exists; members are added with their users.', updateCommands: null } : {}),
+            });
+        }
+
+        for (const [name, user] of Object.entries(backup.users || {})) {
+            const command = smbZfsCommands.createUser(name, { shell: user.shell_access, groups: user.groups, home: Boolean(user.dataset) });
+            const quota = user.dataset?.quota && user.dataset.quota !== backup.default_home_quota
+                ? [smbZfsCommands.modifyHome(name, user.dataset.quota)]
+                : [];
+            const existing = current?.users?.[name];
+            const missingGroups = user.groups.filter(g => !existing?.groups.includes(g));
+            steps.push({
+                key: `user:${name}`,
+                kind: 'user',
+                name,
+                commands: [command, ...quota],
+                password: passwordFor(name),
+                mustChangePassword: true,
+                ...(existing
+                    ? {
+                        conflict: 'User already exists; the password is left unchanged.',
+                        updateCommands: [...missingGroups.map(g => smbZfsCommands.modifyGroup(g, { addUsers: [name] })), ...quota],
+                    }
+                    : {}),
+            });
+        }
+
+        for (const [name, share] of Object.entries(backup.shares || {})) {
+            steps.push({
+                key: `share:${name}`,
+                kind: 'share',
+                name,
+                commands: [createShareCommand(name, share)],
+                ...(current?.shares?.[name] ? { conflict: 'Share already exists.', updateCommands: [modifyShareCommand(name, share)] } : {}),
+            });
+        }
+
+        return steps;
+    },
+};
+
+interface ImportCandidate {
+    name: string;
+    source: 'smb.conf' | 'zfs';
+    path: string;
+    share: ShareData;
+    problems: string[];
+}
+
+const IMPORT_SKIPPED_SECTIONS = ['global', 'homes', 'printers', 'print$'];
+const SMB_CONF_IMPORT_BACKUP = `${SMB_CONF}.smb-zfs-import.bak`;
+
+// Parses 'testparm -s' into sections; testparm prints canonical parameter names and only non-default values
+const parseTestparm = (output: string): Record<string, Record<string, string>> => {
+    const sections: Record<string, Record<string, string>> = {};
+    let current: Record<string, string> | null = null;
+    for (const line of output.split('\n')) {
+        const header = line.match(/^\s*\[([^\]]+)\]/);
+        if (header) {
+            current = sections[header[1].trim()] = {};
+        } else if (current) {
+            const m = line.match(/^\s*([^=]+?)\s*=\s*(.*?)\s*$/);
+            if (m) current[m[1].toLowerCase()] = m[2];
+        }
+    }
+    return sections;
+};
+
+const removeSection = (content: string, share: string): string => {
+    const lines = content.split('\n');
+    const start = lines.findIndex(l => isSectionHeader(l) && sectionName(l) === share.toLowerCase());
+    if (start < 0) throw new Error(`Share [${share}] not found in ${SMB_CONF}`);
+    let end = lines.findIndex((l, i) => i > start && isSectionHeader(l));
+    if (end < 0) end = lines.length;
+    return [...lines.slice(0, start), ...lines.slice(end)].join('\n');
+};
+
+const importApi = {
+    // Lists smb.conf shares and pool datasets that smb-zfs does not manage yet, mapped onto ShareData
+    scan: async (managedShares: string[], pools: string[], managedDatasets: string[]): Promise<ImportCandidate[]> => {
+        const [testparm, rawConf, zfsList]: [string, string | null, string] = await Promise.all([
+            cockpit.spawn(["testparm", "-s"], { superuser: "try", err: "ignore" }),
+            cockpit.file(SMB_CONF, { superuser: "try" }).read(),
+            cockpit.spawn(["zfs", "list", "-H", "-o", "name,mountpoint,quota", "-t", "filesystem"], { err: "message" }),
+        ]);
+
+        const datasetsByMountpoint: Record<string, { name: string; quota: string }> = {};
+        const datasets: { name: string; mountpoint: string; quota: string }[] = [];
+        for (const line of zfsList.split('\n').filter(Boolean)) {
+            const [name, mountpoint, quota] = line.split('\t');
+            if (!mountpoint.startsWith('/')) continue;
+            datasetsByMountpoint[mountpoint] = { name, quota };
+            datasets.push({ name, mountpoint, quota });
+        }
+
+        const managed = managedShares.map(s => s.toLowerCase());
+        const confSections = (rawConf || '').split('\n')
+                .filter(isSectionHeader)
+                .map(sectionName);
+        const candidates: ImportCandidate[] = [];
+        const claimed = new Set<string>();
+
+        const toShareData = (dataset: string, quota: string, options: Record<string, string> = {}): ShareData => ({
+            dataset: { name: dataset, quota: quota === 'none' || quota === '-' ? '' : quota, pool: dataset.split('/')[0] },
+            smb_config: {
+                comment: options.comment || '',
+                browseable: (options.browseable || 'yes').toLowerCase() !== 'no',
+                read_only: (options['read only'] || 'yes').toLowerCase() !== 'no',
+                valid_users: options['valid users'] || '',
+            },
+            system: { owner: '', group: '', permissions: '' },
+            created: '',
+        });
+
+        for (const [name, options] of Object.entries(parseTestparm(testparm))) {
+            if (IMPORT_SKIPPED_SECTIONS.includes(name.toLowerCase()) || managed.includes(name.toLowerCase())) continue;
+            if (options.printable?.toLowerCase() === 'yes' || !options.path) continue;
+            const path = options.path.replace(/\/+$/, '');
+            const dataset = datasetsByMountpoint[path];
+            const problems: string[] = [];
+            if (!dataset) problems.push(`${path} is not the mountpoint of a ZFS dataset.`);
+            else if (!pools.includes(dataset.name.split('/')[0])) problems.push(`Pool ${dataset.name.split('/')[0]} is not configured in smb-zfs.`);
+            else if (dataset.name === dataset.name.split('/')[0]) problems.push('A pool root dataset cannot back a share.');
+            if (!confSections.includes(name.toLowerCase())) problems.push(`[${name}] is defined outside ${SMB_CONF}; remove it there by hand.`);
+            if (dataset) claimed.add(dataset.name);
+            candidates.push({ name, source: 'smb.conf', path, share: toShareData(dataset?.name || '', dataset?.quota || '', options), problems });
+        }
+
+        for (const dataset of datasets) {
+            const pool = dataset.name.split('/')[0];
+            if (!pools.includes(pool) || dataset.name === pool || claimed.has(dataset.name)) continue;
+            // Skip managed datasets together with their parents (e.g. the homes container) and children
+            if (managedDatasets.some(m => m === dataset.name || m.startsWith(`${dataset.name}/`) || dataset.name.startsWith(`${m}/`))) continue;
+            candidates.push({
+                name: dataset.name.slice(dataset.name.lastIndexOf('/') + 1),
+                source: 'zfs',
+                path: dataset.mountpoint,
+                share: toShareData(dataset.name, dataset.quota),
+                problems: [],
             });
+        }
+
+        // One stat call for all paths; missing paths simply produce no line
+        const paths = candidates.map(c => c.path);
+        if (paths.length > 0) {
+            const output: string = await cockpit.spawn(["sh", "-c", 'stat -c "%n\t%U\t%G\t%a" -- "$@" 2>/dev/null; true', "--", ...paths],
+                                                       { superuser: "try", err: "ignore" });
+            const owners: Record<string, string[]> = {};
+            output.split('\n').filter(Boolean)
+                    .forEach(line => {
+                        const [path, ...rest] = line.split('\t');
+                        owners[path] = rest;
+                    });
+            for (const candidate of candidates) {
+                const [owner, group, permissions] = owners[candidate.path] || [];
+                if (owner) candidate.share.system = { owner, group, permissions };
+                else candidate.problems.push(`${candidate.path} could not be read.`);
+            }
+        }
+
+        return candidates;
+    },
+
+    // Registers a candidate via 'create share' with its current owner, mode and options so nothing on disk changes
+    adopt: async (candidate: ImportCandidate, name: string): Promise<void> => {
+        const command = createShareCommand(name, candidate.share);
+
+        if (candidate.source === 'zfs') {
+            await smbZfsApi.run(command);
+            return;
+        }
+
+        // The hand-written section would clash with the managed one, so take it out first and put it back on failure
+        const conf = cockpit.file(SMB_CONF, { superuser: "require" });
+        const original: string = await conf.read();
+        await cockpit.file(SMB_CONF_IMPORT_BACKUP, { superuser: "require" }).replace(original);
+        await conf.replace(removeSection(original, candidate.name));
+        try {
+            await smbZfsApi.run(command);
+        } catch (err) {
+            await conf.replace(original);
+            throw err;
+        }
+    },
+};
+
+interface DriftItem {
+    kind: 'share' | 'user';
+    target: string;
+    setting: string;
+    expected: string;
+    actual: string;
+    reapply: string[] | null;
+    accept: string[] | null;
+    note?: string;
+}
+
+const splitList = (value: string): string[] => value.split(',').map(v => v.trim())
+        .filter(Boolean);
+const normalizeUserList = (list: string) => list.split(/[\s,]+/).filter(Boolean)
+        .sort()
+        .join(' ');
+const normalizePermissions = (perms: string) => perms.replace(/^0+(?=\d{3})/, '');
+
+const driftApi = {
+    // Compares smb-zfs state with testparm, ZFS, the share directories and passdb
+    detect: async (state: State): Promise<DriftItem[]> => {
+        const shares = Object.entries(state.shares || {});
+        const users = Object.entries(state.users || {});
+        const datasets = [
+            ...shares.map(([, data]) => data.dataset.name),
+            ...users.map(([, data]) => data.dataset?.name).filter(Boolean) as string[],
+        ];
+
+        const [testparm, zfsOutput, passdb]: [string, string, string] = await Promise.all([
+            cockpit.spawn(["testparm", "-s"], { superuser: "try", err: "ignore" }),
+            datasets.length > 0
+                ? cockpit.spawn(["sh", "-c", 'zfs get -H -o name,property,value quota,mountpoint -- "$@" 2>/dev/null; true', "--", ...datasets],
+                                { superuser: "try", err: "ignore" })
+                : Promise.resolve(""),
+            cockpit.spawn(["pdbedit", "-L"], { superuser: "require", err: "message" }),
+        ]);
+
+        const sections = Object.fromEntries(Object.entries(parseTestparm(testparm))
+                .map(([name, options]) => [name.toLowerCase(), options]));
+        const live: Record<string, { quota?: string; mountpoint?: string }> = {};
+        zfsOutput.split('\n').filter(Boolean)
+                .forEach(line => {
+                    const [name, property, value] = line.split('\t');
+                    live[name] = { ...live[name], [property]: value };
+                });
+        const sambaUsers = passdb.split('\n').map(l => l.split(':')[0])
+                .filter(Boolean);
+
+        const mountpoints = Object.values(live).map(l => l.mountpoint)
+                .filter(m => m?.startsWith('/')) as string[];
+        const statOutput: string = mountpoints.length > 0
+            ? await cockpit.spawn(["sh", "-c", 'stat -c "%n\t%U\t%G\t%a" -- "$@" 2>/dev/null; true', "--", ...mountpoints],
+                                  { superuser: "try", err: "ignore" })
+            : "";
+        const stats: Record<string, string[]> = {};
+        statOutput.split('\n').filter(Boolean)
+                .forEach(line => {
+                    const [path, ...rest] = line.split('\t');
+                    stats[path] = rest;
+                });
+
+        const items: DriftItem[] = [];
+        const compare = (
+            kind: DriftItem['kind'], target: string, setting: string, expected: string, actual: string,
+            equal: boolean, args: (value: string) => string[]
+        ) => {
+            if (equal) return;
+            items.push({ kind, target, setting, expected, actual, reapply: args(expected), accept: args(actual) });
+        };
+        const compareQuota = (kind: DriftItem['kind'], target: string, dataset: string, quota: string | undefined, command: string[]) => {
+            const actual = live[dataset]?.quota;
+            if (actual === undefined) {
+                items.push({ kind, target, setting: 'dataset', expected: dataset, actual: 'missing', reapply: null, accept: null, note: 'The ZFS dataset no longer exists.' });
+                return;
+            }
+            compare(kind, target, 'quota', quota || 'none', actual, parseSize(quota || '') === parseSize(actual),
+                    value => [...command, '--quota', value]);
+        };
+
+        for (const [name, data] of shares) {
+            const modify = ['modify', 'share', name];
+            const section = sections[name.toLowerCase()];
+            if (!section) {
+                items.push({
+                    kind: 'share',
+                    target: name,
+                    setting: 'smb.conf section',
+                    expected: 'present',
+                    actual: 'missing',
+                    reapply: [...modify, '--comment', data.smb_config.comment || '', '--valid-users', data.smb_config.valid_users || '',
+                        data.smb_config.read_only ? '--readonly' : '--no-readonly', data.smb_config.browseable ? '--browse' : '--no-browse'],
+                    accept: null,
+                    note: 'Accepting would mean deleting the share, which is done from the Shares tab.',
+                });
+            } else {
+                const readOnly = (section['read only'] || 'yes').toLowerCase() !== 'no';
+                const browseable = (section.browseable || 'yes').toLowerCase() !== 'no';
+                compare('share', name, 'comment', data.smb_config.comment || '', section.comment || '',
+                        (data.smb_config.comment || '') === (section.comment || ''), value => [...modify, '--comment', value]);
+                compare('share', name, 'read only', data.smb_config.read_only ? 'yes' : 'no', readOnly ? 'yes' : 'no',
+                        data.smb_config.read_only === readOnly, value => [...modify, value === 'yes' ? '--readonly' : '--no-readonly']);
+                compare('share', name, 'browseable', data.smb_config.browseable ? 'yes' : 'no', browseable ? 'yes' : 'no',
+                        data.smb_config.browseable === browseable, value => [...modify, value === 'yes' ? '--browse' : '--no-browse']);
+                compare('share', name, 'valid users', data.smb_config.valid_users || '', section['valid users'] || '',
+                        normalizeUserList(data.smb_config.valid_users || '') === normalizeUserList(section['valid users'] || ''),
+                        value => [...modify, '--valid-users', value]);
+            }
+
+            compareQuota('share', name, data.dataset.name, data.dataset.quota, modify);
+            const mountpoint = live[data.dataset.name]?.mountpoint;
+            const [owner, group, perms] = (mountpoint && stats[mountpoint]) || [];
+            if (owner) {
+                compare('share', name, 'owner', data.system.owner, owner, data.system.owner === owner, value => [...modify, '--owner', value]);
+                compare('share', name, 'group', data.system.group, group, data.system.group === group, value => [...modify, '--group', value]);
+                compare('share', name, 'permissions', data.system.permissions, perms,
+                        normalizePermissions(data.system.permissions) === normalizePermissions(perms), value => [...modify, '--perms', value]);
+            }
+        }
+
+        for (const [name, data] of users) {
+            if (!sambaUsers.includes(name)) {
+                items.push({
+                    kind: 'user',
+                    target: name,
+                    setting: 'Samba account',
+                    expected: 'present',
+                    actual: 'missing from passdb',
+                    reapply: null,
+                    accept: null,
+                    note: 'Set a new password to recreate the Samba account.',
+                });
+            }
+            if (data.dataset) compareQuota('user', name, data.dataset.name, data.dataset.quota, ['modify', 'home', name]);
+        }
+
+        return items;
+    },
+};
+
+const DESIRED_STATE_VERSION = 1;
+const DESIRED_STATE_DEFAULT_PATH = "/etc/smb-zfs/desired-state.yaml";
+const DESIRED_STATE_SESSION_KEY = "smb-zfs-desired-state";
+
+// Group membership is declared on users only, so there is a single source of truth for it
+interface DesiredUser {
+    shell?: boolean;
+    home?: boolean;
+    quota?: string;
+    groups?: string[];
+}
+
+interface DesiredGroup {
+    description?: string;
+}
+
+interface DesiredShare {
+    dataset: string;
+    comment?: string;
+    owner?: string;
+    group?: string;
+    permissions?: string;
+    valid_users?: string;
+    read_only?: boolean;
+    browseable?: boolean;
+    quota?: string;
+}
+
+interface DesiredState {
+    version: number;
+    groups: Record<string, DesiredGroup>;
+    users: Record<string, DesiredUser>;
+    shares: Record<string, DesiredShare>;
+}
+
+interface DesiredStatePlan {
+    steps: PlanStep[];
+    deletions: PlanStep[];
+}
+
+const desiredStateApi = {
+    parse: (text: string): DesiredState => {
+        const doc = yaml.load(text) as Partial<DesiredState> | null;
+        if (!doc || typeof doc !== 'object') throw new Error("The document is empty.");
+        if (doc.version !== DESIRED_STATE_VERSION) throw new Error(`'version' must be ${DESIRED_STATE_VERSION}.`);
+
+        const problems: string[] = [];
+        const section = <T, >(key: 'groups' | 'users' | 'shares', itemType: string): Record<string, T> => {
+            const value = doc[key] ?? {};
+            if (typeof value !== 'object' || Array.isArray(value)) {
+                problems.push(`'${key}' must be a mapping of names to settings.`);
+                return {};
+            }
+            for (const [name, item] of Object.entries(value)) {
+                const check = validateName(name, itemType);
+                if (!check.isValid) problems.push(`${key}.${name}: ${check.error}`);
+                if (item !== null && typeof item !== 'object') problems.push(`${key}.${name} must be a mapping.`);
+            }
+            return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, (item || {}) as T]));
+        };
+        const groups = section<DesiredGroup>('groups', 'group');
+        const users = section<DesiredUser>('users', 'user');
+        const shares = section<DesiredShare>('shares', 'share');
+
+        for (const [name, user] of Object.entries(users)) {
+            if (user.groups !== undefined && !Array.isArray(user.groups)) problems.push(`users.${name}.groups must be a list.`);
+            if (user.quota && !validateQuota(user.quota).isValid) problems.push(`users.${name}.quota: ${validateQuota(user.quota).error}`);
+            if (user.home === false && user.quota) problems.push(`users.${name}: a quota needs a home dataset.`);
+        }
+        for (const [name, share] of Object.entries(shares)) {
+            if (!share.dataset || !share.dataset.includes('/')) problems.push(`shares.${name}.dataset must be a full dataset name such as tank/shares/${name}.`);
+            if (share.permissions && !validatePermissions(share.permissions).isValid) problems.push(`shares.${name}.permissions: ${validatePermissions(share.permissions).error}`);
+            if (share.quota && !validateQuota(share.quota).isValid) problems.push(`shares.${name}.quota: ${validateQuota(share.quota).error}`);
+        }
+        if (problems.length > 0) throw new Error(problems.join('\n'));
+
+        return { version: DESIRED_STATE_VERSION, groups, users, shares };
+    },
+
+    // A document describing the current configuration, as a starting point for editing
+    fromState: (state: State): string => yaml.dump({
+        version: DESIRED_STATE_VERSION,
+        groups: Object.fromEntries(Object.entries(state.groups || {}).map(([name, g]) => [name, { description: g.description || '' }])),
+        users: Object.fromEntries(Object.entries(state.users || {}).map(([name, u]) => [name, {
+            shell: u.shell_access,
+            home: Boolean(u.dataset),
+            ...(u.dataset?.quota ? { quota: u.dataset.quota } : {}),
+            groups: u.groups,
+        }])),
+        shares: Object.fromEntries(Object.entries(state.shares || {}).map(([name, s]) => [name, {
+            dataset: s.dataset.name,
+            comment: s.smb_config.comment || '',
+            owner: s.system.owner,
+            group: s.system.group,
+            permissions: s.system.permissions,
+            valid_users: s.smb_config.valid_users || '',
+            read_only: s.smb_config.read_only,
+            browseable: s.smb_config.browseable,
+            ...(s.dataset.quota ? { quota: s.dataset.quota } : {}),
+        }])),
+    }),
+
+    load: (path: string): Promise<string> =>
+        cockpit.file(path, { superuser: "try" }).read()
+                .then((content: string | null) => {
+                    if (content === null) throw new Error(`${path} does not exist.`);
+                    return content;
+                }),
+
+    save: (path: string, content: string): Promise<void> =>
+        cockpit.file(path, { superuser: "require" }).replace(content),
+
+    // Orders creations like a restore (groups, users, memberships, shares); deletions are returned separately
+    plan: (desired: DesiredState, state: State, passwordFor: (user: string) => string): DesiredStatePlan => {
+        const steps: PlanStep[] = [];
+        const deletions: PlanStep[] = [];
+        const currentGroups = state.groups || {};
+        const currentUsers = state.users || {};
+        const currentShares = state.shares || {};
+
+        for (const [name, group] of Object.entries(desired.groups)) {
+            const current = currentGroups[name];
+            if (!current) {
+                const command = smbZfsCommands.createGroup(name, group.description ? { description: group.description } : {});
+                steps.push({ key: `group:${name}`, kind: 'group', name, commands: [command] });
+            } else if (group.description !== undefined && group.description !== (current.description || '')) {
+                // smb-zfs only sets a description when it creates the group
+                steps.push({
+                    key: `group:${name}`,
+                    kind: 'group',
+                    name,
+                    commands: [],
+                    conflict: 'The description of an existing group cannot be changed.',
+                    updateCommands: null,
+                });
+            }
+        }
+
+        for (const [name, user] of Object.entries(desired.users)) {
+            const current = currentUsers[name];
+            const commands: string[][] = [];
+            if (!current) {
+                commands.push(smbZfsCommands.createUser(name, { shell: Boolean(user.shell), groups: user.groups || [], home: user.home !== false }));
+                if (user.quota) commands.push(smbZfsCommands.modifyHome(name, user.quota));
+                steps.push({ key: `user:${name}`, kind: 'user', name, commands, password: passwordFor(name) });
+                continue;
+            }
+            if (user.groups) {
+                user.groups.filter(g => !current.groups.includes(g))
+                        .forEach(g => commands.push(smbZfsCommands.modifyGroup(g, { addUsers: [name] })));
+                current.groups.filter(g => !user.groups?.includes(g))
+                        .forEach(g => commands.push(smbZfsCommands.modifyGroup(g, { removeUsers: [name] })));
+            }
+            if (user.quota !== undefined && current.dataset && parseSize(user.quota) !== parseSize(current.dataset.quota || '')) {
+                commands.push(smbZfsCommands.modifyHome(name, user.quota));
+            }
+            // smb-zfs sets shell access and the home dataset only when it creates a user
+            const conflicts = [
+                ...(user.shell !== undefined && user.shell !== current.shell_access
+                    ? [`Shell access cannot be ${user.shell ? 'granted to' : 'removed from'} an existing user.`]
+                    : []),
+                ...(user.home === true && !current.dataset ? ['A home cannot be added to an existing user (home: true).'] : []),
+                ...(user.home === false && current.dataset ? ['Removing a home is not done by the plan (home: false).'] : []),
+            ];
+            if (commands.length > 0 || conflicts.length > 0) {
+                steps.push({
+                    key: `user:${name}`,
+                    kind: 'user',
+                    name,
+                    commands,
+                    ...(conflicts.length > 0 ? { conflict: conflicts.join(' '), updateCommands: commands } : {}),
+                });
+            }
+        }
+
+        for (const [name, share] of Object.entries(desired.shares)) {
+            const current = currentShares[name];
+            const pool = share.dataset.split('/')[0];
+            if (!current) {
+                const data: ShareData = {
+                    dataset: { name: share.dataset, quota: share.quota || '', pool },
+                    smb_config: {
+                        comment: share.comment || '',
+                        browseable: share.browseable ?? true,
+                        read_only: share.read_only ?? false,
+                        valid_users: share.valid_users || '',
+                    },
+                    system: { owner: share.owner || '', group: share.group || '', permissions: share.permissions || '' },
+                    created: '',
+                };
+                steps.push({ key: `share:${name}`, kind: 'share', name, commands: [createShareCommand(name, data)] });
+                continue;
+            }
+            if (current.dataset.name !== share.dataset) {
+                steps.push({
+                    key: `share:${name}`,
+                    kind: 'share',
+                    name,
+                    commands: [],
+                    conflict: `The share uses ${current.dataset.name}; moving it to ${share.dataset} needs a delete and re-create.`,
+                    updateCommands: null,
+                });
+                continue;
+            }
+            const smb = current.smb_config;
+            const changes: ShareOptions = {
+                ...(share.comment !== undefined && share.comment !== (smb.comment || '') ? { comment: share.comment } : {}),
+                ...(share.owner !== undefined && share.owner !== current.system.owner ? { owner: share.owner } : {}),
+                ...(share.group !== undefined && share.group !== current.system.group ? { group: share.group } : {}),
+                ...(share.permissions !== undefined && normalizePermissions(share.permissions) !== normalizePermissions(current.system.permissions)
+                    ? { permissions: share.permissions }
+                    : {}),
+                ...(share.valid_users !== undefined && normalizeUserList(share.valid_users) !== normalizeUserList(smb.valid_users || '')
+                    ? { validUsers: share.valid_users }
+                    : {}),
+                ...(share.read_only !== undefined && share.read_only !== smb.read_only ? { readOnly: share.read_only } : {}),
+                ...(share.browseable !== undefined && share.browseable !== smb.browseable ? { browseable: share.browseable } : {}),
+                ...(share.quota !== undefined && parseSize(share.quota) !== parseSize(current.dataset.quota || '') ? { quota: share.quota || 'none' } : {}),
+            };
+            if (Object.keys(changes).length > 0) {
+                steps.push({ key: `share:${name}`, kind: 'share', name, commands: [smbZfsCommands.modifyShare(name, changes)] });
+            }
+        }
+
+        // Shares go first so users and groups are no longer referenced when they are removed
+        Object.keys(currentShares).filter(n => !(n in desired.shares))
+                .forEach(n => deletions.push({ key: `delete-share:${n}`, kind: 'share', name: n, commands: [smbZfsCommands.deleteShare(n)] }));
+        Object.keys(currentUsers).filter(n => !(n in desired.users))
+                .forEach(n => deletions.push({ key: `delete-user:${n}`, kind: 'user', name: n, commands: [smbZfsCommands.deleteUser(n)] }));
+        Object.keys(currentGroups).filter(n => !(n in desired.groups))
+                .forEach(n => deletions.push({ key: `delete-group:${n}`, kind: 'group', name: n, commands: [smbZfsCommands.deleteGroup(n)] }));
+
+        return { steps, deletions };
+    },
+};
+
+interface PasswordPolicy {
+    minLength: number;
+    requireLowercase: boolean;
+    requireUppercase: boolean;
+    requireDigit: boolean;
+    requireSymbol: boolean;
+    rejectUsername: boolean;
+    rejectCommon: boolean;
+    useSambaPolicy: boolean; // also enforce the 'min password length' account policy of the Samba passdb
+}
+
+// The stored policy plus the length Samba enforces itself, when that was requested and could be read
+interface EffectivePasswordPolicy extends PasswordPolicy {
+    sambaMinLength: number | null;
+}
+
+const PASSWORD_POLICY_CONFIG = "/etc/smb-zfs/password-policy.json";
+
+const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+    minLength: 8,
+    requireLowercase: false,
+    requireUppercase: false,
+    requireDigit: false,
+    requireSymbol: false,
+    rejectUsername: true,
+    rejectCommon: true,
+    useSambaPolicy: true,
+};
+
+const passwordPolicyApi = {
+    load: async (): Promise<EffectivePasswordPolicy> => {
+        const content: { policy?: Partial<PasswordPolicy> } | null = await cockpit.file(PASSWORD_POLICY_CONFIG, { syntax: JSON, superuser: "try" })
+                .read()
+                .catch(() => null);
+        const policy = { ...DEFAULT_PASSWORD_POLICY, ...(content?.policy || {}) };
+        const sambaMinLength = policy.useSambaPolicy ? await passwordPolicyApi.getSambaMinLength() : null;
+        return { ...policy, sambaMinLength };
+    },
+
+    // pdbedit prints e.g. "account policy "min password length" value is: 5"
+    getSambaMinLength: (): Promise<number | null> =>
+        cockpit.spawn(["pdbedit", "-P", "min password length"], { superuser: "try", err: "ignore" })
+                .then((output: string) => {
+                    const match = /value.*?is:\s*(\d+)/.exec(output);
+                    return match ? Number(match[1]) : null;
+                })
+                .catch(() => null),
+
+    save: (policy: PasswordPolicy): Promise<unknown> =>
+        cockpit.file(PASSWORD_POLICY_CONFIG, { syntax: JSON, superuser: "require" })
+                .replace({ version: 1, policy }),
+};
+
+interface SmbSession {
+    pid: string;
+    username: string;
+    group: string;
+    machine: string;
+    protocol: string;
+    encryption: string;
+    signing: string;
+}
+
+interface SmbConnection {
+    share: string;
+    pid: string;
+    machine: string;
+    connectedAt: string;
+}
+
+interface SmbLockedFile {
+    pid: string;
+    uid: string;
+    path: string;
+    mode: string;
+    oplock: string;
+    openedAt: string;
+}
+
+interface SmbStatus {
+    sessions: SmbSession[];
+    connections: SmbConnection[];
+    lockedFiles: SmbLockedFile[];
+}
+
+interface SmbServerId {
+    pid?: string | number;
+}
+
+interface SmbCrypto {
+    cipher?: string;
+    degree?: string;
+}
+
+// Subset of the 'smbstatus --json' output (Samba >= 4.16) that the UI uses
+interface SmbStatusJson {
+    sessions?: Record<string, {
+        server_id?: SmbServerId;
+        username?: string;
+        groupname?: string;
+        remote_machine?: string;
+        hostname?: string;
+        session_dialect?: string;
+        encryption?: SmbCrypto;
+        signing?: SmbCrypto;
+    }>;
+    tcons?: Record<string, {
+        service?: string;
+        server_id?: SmbServerId;
+        machine?: string;
+        connected_at?: string;
+    }>;
+    open_files?: Record<string, {
+        service_path?: string;
+        filename?: string;
+        opens?: Record<string, {
+            server_id?: SmbServerId;
+            uid?: string | number;
+            opened_at?: string;
+            sharemode?: { text?: string };
+            oplock?: { text?: string };
+        }>;
+    }>;
+}
+
+const describeCrypto = (crypto?: SmbCrypto): string =>
+    crypto?.cipher ? `${crypto.degree || 'full'} (${crypto.cipher})` : '-';
+
+const parseSmbStatusJson = (data: SmbStatusJson): SmbStatus => ({
+    sessions: Object.values(data.sessions || {}).map(s => ({
+        pid: String(s.server_id?.pid ?? ''),
+        username: s.username || '',
+        group: s.groupname || '',
+        machine: s.remote_machine || s.hostname || '',
+        protocol: s.session_dialect || '',
+        encryption: describeCrypto(s.encryption),
+        signing: describeCrypto(s.signing),
+    })),
+    connections: Object.values(data.tcons || {}).map(t => ({
+        share: t.service || '',
+        pid: String(t.server_id?.pid ?? ''),
+        machine: t.machine || '',
+        connectedAt: t.connected_at || '',
+    })),
+    lockedFiles: Object.entries(data.open_files || {}).flatMap(([path, file]) =>
+        Object.values(file.opens || {}).map(open => ({
+            pid: String(open.server_id?.pid ?? ''),
+            uid: String(open.uid ?? ''),
+            path: file.service_path && file.filename ? `${file.service_path}/${file.filename}` : path,
+            mode: open.sharemode?.text || '',
+            oplock: open.oplock?.text || '',
+            openedAt: open.opened_at || '',
+        }))),
+});
+
+// Fallback for older Samba: parse the three tables of the plain 'smbstatus' output
+const parseSmbStatusText = (output: string): SmbStatus => {
+    const status: SmbStatus = { sessions: [], connections: [], lockedFiles: [] };
+    let section: 'sessions' | 'connections' | 'locks' | null = null;
+    for (const line of output.split(/\r?\n/)) {
+        if (/^PID\s+Username/.test(line)) section = 'sessions';
+        else if (/^Service\s+pid/.test(line)) section = 'connections';
+        else if (/^Pid\s+(User|Uid)/.test(line)) section = 'locks';
+        if (!section || !line.trim() || /^-+$/.test(line.trim())) continue;
+
+        let m;
+        if (section === 'sessions' && (m = line.match(/^(\d+)\s+(\S+)\s+(\S+)\s+(\S+)(?:\s+\([^)]*\))?\s+(\S+)\s+(\S+)\s+(\S+)/))) {
+            status.sessions.push({ pid: m[1], username: m[2], group: m[3], machine: m[4], protocol: m[5], encryption: m[6], signing: m[7] });
+        } else if (section === 'connections' && (m = line.match(/^(\S+)\s+(\d+)\s+(\S+)\s+(.+?)(?:\s{2,}\S+\s+\S+)?\s*$/))) {
+            status.connections.push({ share: m[1], pid: m[2], machine: m[3], connectedAt: m[4] });
+        } else if (section === 'locks' && (m = line.match(/^(\d+)\s+(\d+)\s+(\S+)\s+\S+\s+\S+\s+(\S+)\s+(\S+)\s+(.+?)\s+(\w{3} \w{3}\s+\d+ [\d:]+ \d{4})\s*$/))) {
+            status.lockedFiles.push({ pid: m[1], uid: m[2], mode: m[3], oplock: m[4], path: `${m[5]}/${m[6].trim()}`, openedAt: m[7] });
+        }
+    }
+    return status;
+};
+
+// Account state from the Samba passdb ('pdbedit -L -v'), independent of the smb-zfs state
+interface SambaAccount {
+    username: string;
+    flags: string; // account control flags without brackets, e.g. "UX"; D = disabled, L = auto-locked
+    disabled: boolean;
+    locked: boolean;
+    badPasswordCount: number;
+    passwordLastSet: string;
+    mustChange: string | null; // null when the password never has to be changed
+    expires: string | null; // kickoff time; null when the account never expires
+}
+
+// pdbedit shows "never" or the end of the 32-bit time range for unset times
+const pdbeditTime = (value: string | undefined): string | null =>
+    (!value || value === '0' || /never|\b203[68]\b/i.test(value) ? null : value);
+
+const parsePdbeditVerbose = (output: string): Record<string, SambaAccount> => {
+    const accounts: Record<string, SambaAccount> = {};
+    for (const block of output.split(/^-{3,}\s*$/m)) {
+        const fields: Record<string, string> = {};
+        for (const line of block.split(/\r?\n/)) {
+            const m = line.match(/^([^:]+?)\s*:\s*(.*)$/);
+            if (m) fields[m[1].trim()] = m[2].trim();
+        }
+        const username = fields['Unix username'];
+        if (!username) continue;
+        const flags = (fields['Account Flags'] || '').replace(/[[\]\s]/g, '');
+        accounts[username] = {
+            username,
+            flags,
+            disabled: flags.includes('D'),
+            locked: flags.includes('L'),
+            badPasswordCount: parseInt(fields['Bad password count'] || '0', 10) || 0,
+            passwordLastSet: fields['Password last set'] || '',
+            mustChange: pdbeditTime(fields['Password must change']),
+            expires: pdbeditTime(fields['Kickoff time']),
+        };
     }
+    return accounts;
+};
+
+// pdbedit takes the kickoff time as Unix seconds; the account stays usable through the chosen day
+// (in the browser's time zone)
+const kickoffTime = (date: string): number => {
+    const end = new Date(`${date}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    return Math.floor(end.getTime() / 1000);
+};
+
+// The last usable day of a kickoff time shown by pdbedit, as YYYY-MM-DD for a date input
+const kickoffDate = (expires: string): string => {
+    const last = new Date(Date.parse(expires) - 1000);
+    if (isNaN(last.getTime())) return '';
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${last.getFullYear()}-${pad(last.getMonth() + 1)}-${pad(last.getDate())}`;
+};
+
+const isAccountExpired = (account: SambaAccount): boolean =>
+    account.expires !== null && Date.parse(account.expires) < Date.now();
+
+const sambaApi = {
+    getStatus: (): Promise<SmbStatus> =>
+        cockpit.spawn(["smbstatus", "--json"], { superuser: "require", err: "message" })
+                .then((output: string) => parseSmbStatusJson(JSON.parse(output)))
+                .catch(() => cockpit.spawn(["smbstatus"], { superuser: "require", err: "message" })
+                        .then(parseSmbStatusText)),
+
+    // Every SMB session is served by its own smbd process; shutting it down disconnects the client
+    disconnectSession: (pid: string): Promise<string> =>
+        cockpit.spawn(["smbcontrol", pid, "shutdown"], { superuser: "require", err: "message" }),
+
+    disconnectUser: async (user: string): Promise<void> => {
+        const status = await sambaApi.getStatus();
+        const pids = [...new Set(status.sessions.filter(s => s.username === user).map(s => s.pid))];
+        for (const pid of pids) await sambaApi.disconnectSession(pid);
+    },
+
+    getAccounts: (): Promise<Record<string, SambaAccount>> =>
+        cockpit.spawn(["pdbedit", "-L", "-v"], { superuser: "require", err: "message" })
+                .then((output: string) => parsePdbeditVerbose(output)),
+
+    setAccountEnabled: (user: string, enabled: boolean): Promise<string> =>
+        cockpit.spawn(["smbpasswd", enabled ? "-e" : "-d", user], { superuser: "require", err: "message" }),
+
+    // Resets the bad password count and clears the auto-lock flag, keeping the other flags pdbedit lets us set (NDHX)
+    unlockAccount: async (account: SambaAccount): Promise<void> => {
+        await cockpit.spawn(["pdbedit", "-r", "-u", account.username, "-z"], { superuser: "require", err: "message" });
+        if (account.locked) {
+            await cockpit.spawn(["pdbedit", "-r", "-u", account.username, "-c", `[${account.flags.replace(/[^NDHX]/g, '')}]`],
+                                { superuser: "require", err: "message" });
+        }
+    },
+
+    // date is YYYY-MM-DD, or null for an account that never expires
+    setAccountExpiry: (user: string, date: string | null): Promise<string> =>
+        cockpit.spawn(["pdbedit", "-r", "-u", user, `--kickoff-time=${date ? kickoffTime(date) : 'never'}`],
+                      { superuser: "require", err: "message" }),
+
+    // pdbedit cannot set the must-change time on all supported Samba versions; 'net sam' resets
+    // the last-set time, which forces a change at the next logon
+    setMustChangePassword: (user: string, mustChange: boolean): Promise<string> =>
+        cockpit.spawn(["net", "sam", "set", "pwdmustchangenow", user, mustChange ? "yes" : "no"],
+                      { superuser: "require", err: "message" }),
 };
 
 // Main Application Component (keeping existing structure)
+const POOL_POLL_INTERVAL = 60000;
+
 const App = () => {
     const [state, setState] = useState<State | null>(null);
     const [loading, setLoading] = useState(true);
@@ -190,38 +1536,20 @@ const App = () => {
     const [isRoot, setIsRoot] = useState(false);
     const [currentUser, setCurrentUser] = useState("");
     const [activeTabKey, setActiveTabKey] = useState<string | number>(0);
+    const [pools, setPools] = useState<PoolStatus[]>([]);
+    const [capabilities, setCapabilities] = useState<SmbZfsCapabilities | null>(null);
+    const [operationsOpen, setOperationsOpen] = useState(false);
+    const runningOperations = useOperations().filter(job => job.status === 'running').length;
 
     const refreshState = useCallback(() => {
         setLoading(true);
         smbZfsApi.getState()
-            .then((data: any) => {
-                const normalized: State = {
-                    initialized: Boolean(data?.initialized),
-                    primary_pool: data?.primary_pool || "",
-                    secondary_pools: Array.isArray(data?.secondary_pools) ? data.secondary_pools : [],
-                    server_name: data?.server_name || "",
-                    workgroup: data?.workgroup || "",
-                    macos_optimized: Boolean(data?.macos_optimized),
-                    default_home_quota: data?.default_home_quota || "",
-                    users: data?.users || {},
-                    groups: data?.groups || {},
-                    shares: data?.shares || {},
-                };
-                setState(normalized);
-                setError(null);
-            })
-            .catch(err => {
-                const msg = (err?.message || "").toLowerCase();
-                // Accept multiple possible tool messages that indicate an uninitialized system
-                // e.g. "Error: System not set up. Run 'setup' first." or "not initialized"
-                if (msg.includes("system not set up") || msg.includes("run 'setup' first") || msg.includes("not initialized")) {
-                    setState({ initialized: false, secondary_pools: [], users: {}, groups: {}, shares: {} } as any);
+                .then(data => {
+                    setState(data);
                     setError(null);
-                } else {
-                    setError(err?.message || String(err));
-                }
-            })
-            .finally(() => setLoading(false));
+                })
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
     }, []);
 
     useEffect(() => {
@@ -232,7 +1560,10 @@ const App = () => {
         permission.addEventListener("changed", onChanged);
         setIsRoot(permission.is_superuser || false);
         setCurrentUser(cockpit.user?.name || "unknown");
-        refreshState();
+        // Detection decides '--json' and feature availability, so it has to finish before anything runs
+        smbZfsApi.detectCapabilities()
+                .then(setCapabilities)
+                .finally(refreshState);
         return () => {
             try {
                 permission.removeEventListener("changed", onChanged);
@@ -242,6 +1573,27 @@ const App = () => {
         };
     }, [refreshState]);
 
+    const poolNames = useMemo(() => (state?.initialized
+        ? [state.primary_pool, ...(state.secondary_pools || [])].filter(Boolean) as string[]
+        : []), [state]);
+
+    // Stable references so dependent effects in the tabs do not re-run on every poll
+    const sharePools = useMemo(() => [...(state?.secondary_pools || []), state?.primary_pool].filter(Boolean) as string[], [state]);
+    const markers = useMemo(() => (state ? datasetMarkers(state) : {}), [state]);
+
+    const refreshPools = useCallback(() => {
+        if (poolNames.length === 0) return;
+        zpoolApi.getPools(poolNames)
+                .then(setPools)
+                .catch(() => setPools([]));
+    }, [poolNames]);
+
+    useEffect(() => {
+        refreshPools();
+        const timer = window.setInterval(refreshPools, POOL_POLL_INTERVAL);
+        return () => window.clearInterval(timer);
+    }, [refreshPools]);
+
     const handleTabClick = (_event: React.MouseEvent, tabIndex: string | number) => {
         setActiveTabKey(tabIndex);
     };
@@ -288,14 +1640,21 @@ const App = () => {
 
     const tabs = [
         <Tab key="overview" eventKey={0} title={<TabTitleText>Overview</TabTitleText>}>
-            <OverviewTab state={state} onRefresh={refreshState} />
+            <OverviewTab state={state} pools={pools} isRoot={isRoot} onPoolsRefresh={refreshPools} />
         </Tab>
     ];
 
+    const unhealthyPools = pools.filter(pool => pool.health !== 'ONLINE');
+    const missingFeatures = smbZfsApi.missingFeatures();
+
     if (isRoot) {
         tabs.push(
             <Tab key="users" eventKey={1} title={<TabTitleText>Users</TabTitleText>}>
-                <UsersTab users={state.users || {}} onRefresh={refreshState} />
+                <UsersTab
+                    users={state.users || {}}
+                    groups={Object.keys(state.groups || {})}
+                    onRefresh={refreshState}
+                />
             </Tab>,
             <Tab key="groups" eventKey={2} title={<TabTitleText>Groups</TabTitleText>}>
                 <GroupsTab groups={state.groups || {}} users={Object.keys(state.users || {})} onRefresh={refreshState} />
@@ -303,16 +1662,37 @@ const App = () => {
             <Tab key="shares" eventKey={3} title={<TabTitleText>Shares</TabTitleText>}>
                 <SharesTab
                   shares={state.shares || {}}
-                  pools={[...(state.secondary_pools || []), state.primary_pool].filter(Boolean) as string[]}
+                  pools={sharePools}
                   users={Object.keys(state.users || {})}
                   groups={Object.keys(state.groups || {})}
-                  datasets={Object.values(state.shares || {}).map(s => s.dataset?.name).filter(Boolean) as string[]}
+                  datasetMarkers={markers}
                   onRefresh={refreshState}
                 />
+            </Tab>,
+            <Tab key="access" eventKey={5} title={<TabTitleText>Access</TabTitleText>}>
+                <AccessTab state={state} />
+            </Tab>,
+            <Tab key="desired-state" eventKey={8} title={<TabTitleText>Desired State</TabTitleText>}>
+                <DesiredStateTab state={state} onRefresh={refreshState} />
+            </Tab>,
+            <Tab key="drift" eventKey={7} title={<TabTitleText>Drift</TabTitleText>}>
+                <DriftTab state={state} isActive={activeTabKey === 7} onRefresh={refreshState} />
+            </Tab>,
+            <Tab key="sessions" eventKey={6} title={<TabTitleText>Sessions</TabTitleText>}>
+                <SessionsTab isActive={activeTabKey === 6} />
+            </Tab>,
+            <Tab key="audit" eventKey={9} title={<TabTitleText>Audit</TabTitleText>}>
+                <AuditTab isActive={activeTabKey === 9} />
+            </Tab>,
+            <Tab key="settings" eventKey={4} title={<TabTitleText>Settings</TabTitleText>}>
+                <SettingsTab state={state} onRefresh={refreshState} />
             </Tab>
         );
     } else {
         tabs.push(
+            <Tab key="account" eventKey={2} title={<TabTitleText>My Account</TabTitleText>}>
+                <SelfServiceTab user={currentUser} state={state} />
+            </Tab>,
             <Tab key="password" eventKey={1} title={<TabTitleText>Password</TabTitleText>}>
                 <PasswordTab user={currentUser} onRefresh={refreshState} />
             </Tab>
@@ -320,13 +1700,62 @@ const App = () => {
     }
 
     return (
-        <Page>
+        <Page
+            notificationDrawer={isRoot ? <OperationsDrawer onClose={() => setOperationsOpen(false)} /> : undefined}
+            isNotificationDrawerExpanded={operationsOpen}
+        >
             <PageSection variant="default">
-                <Title headingLevel="h1">Samba on ZFS Management</Title>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <Title headingLevel="h1">Samba on ZFS Management</Title>
+                    {isRoot && (
+                        <Button variant="secondary" onClick={() => setOperationsOpen(open => !open)}>
+                            Operations{runningOperations > 0 && ` (${runningOperations} running)`}
+                        </Button>
+                    )}
+                </div>
                 <Content>
                     <p>A tool to manage Samba on a ZFS-backed system.</p>
                 </Content>
             </PageSection>
+            {unhealthyPools.length > 0 && (
+                <PageSection>
+                    {unhealthyPools.map(pool => (
+                        <Alert
+                            key={pool.name}
+                            variant={pool.health === 'DEGRADED' ? 'warning' : 'danger'}
+                            title={`Pool ${pool.name} is ${pool.health}`}
+                        >
+                            {pool.status || pool.errors}
+                            {pool.action && <p>{pool.action}</p>}
+                        </Alert>
+                    ))}
+                </PageSection>
+            )}
+            {isRoot && (!capabilities || missingFeatures.length > 0) && (
+                <PageSection>
+                    {capabilities
+                        ? (
+                            <Alert
+                                variant="warning"
+                                title={`smb-zfs ${capabilities.version || '(unknown version)'} is too old for some features`}
+                            >
+                                <p>These features are disabled until smb-zfs is upgraded:</p>
+                                <ul>
+                                    {missingFeatures.map(feature => (
+                                        <li key={feature}>
+                                            {SMB_ZFS_FEATURES[feature].label} (<code>{SMB_ZFS_FEATURES[feature].command.join(' ')}</code>)
+                                        </li>
+                                    ))}
+                                </ul>
+                            </Alert>
+                        )
+                        : (
+                            <Alert variant="info" title="Could not detect smb-zfs capabilities">
+                                The '--help' output of smb-zfs could not be read, so all features are shown and JSON output is not requested.
+                            </Alert>
+                        )}
+                </PageSection>
+            )}
             <PageSection type="tabs">
                 <Tabs activeKey={activeTabKey} onSelect={handleTabClick}>
                     {tabs}
@@ -352,6 +1781,7 @@ const InitialSetup: React.FC<InitialSetupProps> = ({ onSetupComplete }) => {
 
     const [macos, setMacos] = useState(false);
     const [pools, setPools] = useState<string[]>([]);
+    const [isRestoreOpen, setRestoreOpen] = useState(false);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -378,14 +1808,14 @@ const InitialSetup: React.FC<InitialSetupProps> = ({ onSetupComplete }) => {
 
         setLoading(true);
         setError(null);
-        const command = ['setup', '--primary-pool', primaryPool.value];
-        if (secondaryPools.value) command.push('--secondary-pools', ...secondaryPools.value.split(' '));
-        if (serverName.value) command.push('--server-name', serverName.value);
-        if (workgroup.value) command.push('--workgroup', workgroup.value);
-        if (macos) command.push('--macos');
-        if (defaultHomeQuota.value) command.push('--default-home-quota', defaultHomeQuota.value);
-
-        smbZfsApi.run(command)
+        smbZfsApi.setup({
+            primaryPool: primaryPool.value,
+            secondaryPools: secondaryPools.value.split(' ').filter(Boolean),
+            serverName: serverName.value,
+            workgroup: workgroup.value,
+            macos,
+            defaultHomeQuota: defaultHomeQuota.value,
+        })
             .then(() => onSetupComplete())
             .catch(err => setError(err.message))
             .finally(() => setLoading(false));
@@ -525,9 +1955,13 @@ const InitialSetup: React.FC<InitialSetupProps> = ({ onSetupComplete }) => {
                             >
                                 {loading ? <Spinner size="sm" /> : 'Run Setup'}
                             </Button>
+                            <Button variant="link" onClick={() => setRestoreOpen(true)} isDisabled={loading}>
+                                Restore from Backup…
+                            </Button>
                         </Form>
                     </CardBody>
                 </Card>
+                <RestoreBackupModal isOpen={isRestoreOpen} onClose={() => setRestoreOpen(false)} onSave={onSetupComplete} current={null} />
             </PageSection>
         </Page>
     );
@@ -536,12 +1970,19 @@ const InitialSetup: React.FC<InitialSetupProps> = ({ onSetupComplete }) => {
 // #region Overview Tab (keeping existing)
 interface OverviewTabProps {
     state: State;
-    onRefresh: () => void;
+    pools: PoolStatus[];
+    isRoot?: boolean;
+    onPoolsRefresh: () => void;
 }
 
-const OverviewTab: React.FC<OverviewTabProps> = ({ state, onRefresh }) => (
+const OverviewTab: React.FC<OverviewTabProps> = ({ state, pools, isRoot = false, onPoolsRefresh }) => (
     <PageSection>
         <Grid hasGutter>
+            {pools.map(pool => (
+                <GridItem key={pool.name} span={12} xl={6}>
+                    <PoolHealthCard pool={pool} isReadOnly={!isRoot} onRefresh={onPoolsRefresh} />
+                </GridItem>
+            ))}
             <GridItem span={12}>
                 <Card>
                     <CardTitle>Configuration</CardTitle>
@@ -557,6 +1998,12 @@ const OverviewTab: React.FC<OverviewTabProps> = ({ state, onRefresh }) => (
                     </CardBody>
                 </Card>
             </GridItem>
+            <GridItem span={12}>
+                <PoolSnapshotSchedules
+                    pools={[state.primary_pool, ...(state.secondary_pools || [])].filter(Boolean) as string[]}
+                    isReadOnly={!isRoot}
+                />
+            </GridItem>
             <GridItem span={12}>
                 <Title headingLevel="h2">Users ({Object.keys(state.users || {}).length})</Title>
                 <UsersTable users={state.users || {}} isReadOnly />
@@ -573,6 +2020,86 @@ const OverviewTab: React.FC<OverviewTabProps> = ({ state, onRefresh }) => (
     </PageSection>
 );
 
+// Spares report AVAIL/INUSE rather than ONLINE when healthy
+const poolHealthColor = (health: string): 'green' | 'orange' | 'red' =>
+    ['ONLINE', 'AVAIL', 'INUSE'].includes(health) ? 'green' : health === 'DEGRADED' ? 'orange' : 'red';
+
+interface PoolHealthCardProps {
+    pool: PoolStatus;
+    isReadOnly?: boolean;
+    onRefresh: () => void;
+}
+
+const PoolHealthCard: React.FC<PoolHealthCardProps> = ({ pool, isReadOnly = false, onRefresh }) => {
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const scrubbing = zpoolApi.isScrubbing(pool);
+
+    const handleScrub = () => {
+        setLoading(true);
+        setError(null);
+        (scrubbing ? zpoolApi.stopScrub(pool.name) : zpoolApi.startScrub(pool.name))
+                .then(onRefresh)
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    };
+
+    return (
+        <Card>
+            <CardTitle>
+                {pool.name}{' '}
+                <Label isCompact color={poolHealthColor(pool.health)}>{pool.health}</Label>
+            </CardTitle>
+            <CardBody>
+                {error && <Alert variant="danger" title={`Failed to ${scrubbing ? 'stop' : 'start'} scrub`}>{error}</Alert>}
+                <Grid hasGutter>
+                    <GridItem span={6}>
+                        <strong>Capacity:</strong>
+                        <UsageBar used={pool.allocated} limit={pool.size} title={`Capacity of ${pool.name}`} />
+                    </GridItem>
+                    <GridItem span={3}><strong>Free:</strong> {formatBytes(pool.free)}</GridItem>
+                    <GridItem span={3}><strong>Fragmentation:</strong> {pool.fragmentation === null ? '-' : `${pool.fragmentation}%`}</GridItem>
+                    <GridItem span={12}><strong>Errors:</strong> {pool.errors || '-'}</GridItem>
+                    <GridItem span={12}><strong>Last Scrub:</strong> {pool.scan || 'Never scrubbed'}</GridItem>
+                    {pool.status && <GridItem span={12}><strong>Status:</strong> {pool.status}</GridItem>}
+                    {pool.action && <GridItem span={12}><strong>Action:</strong> {pool.action}</GridItem>}
+                    <GridItem span={12}>
+                        <div className="pf-v5-c-table pf-m-compact" role="grid" aria-label={`Vdevs of ${pool.name}`}>
+                            <div className="pf-v5-c-table__thead" role="rowgroup">
+                                <div className="pf-v5-c-table__tr" role="row">
+                                    {['Device', 'State', 'Read', 'Write', 'Checksum'].map(col => (
+                                        <div key={col} role="columnheader" className="pf-v5-c-table__th">{col}</div>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="pf-v5-c-table__tbody" role="rowgroup">
+                                {pool.vdevs.map((vdev, i) => (
+                                    <div key={`${vdev.name}-${i}`} className="pf-v5-c-table__tr" role="row">
+                                        <div role="cell" className="pf-v5-c-table__td" style={{ paddingLeft: `${vdev.depth}rem` }}>{vdev.name}</div>
+                                        <div role="cell" className="pf-v5-c-table__td">
+                                            {vdev.state && <Label isCompact color={poolHealthColor(vdev.state)}>{vdev.state}</Label>}
+                                        </div>
+                                        <div role="cell" className="pf-v5-c-table__td">{vdev.read}</div>
+                                        <div role="cell" className="pf-v5-c-table__td">{vdev.write}</div>
+                                        <div role="cell" className="pf-v5-c-table__td">{vdev.cksum}</div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    </GridItem>
+                </Grid>
+                {!isReadOnly && (
+                    <div style={{ paddingTop: '1rem' }}>
+                        <Button variant={scrubbing ? 'danger' : 'secondary'} onClick={handleScrub} isDisabled={loading}>
+                            {loading ? <Spinner size="sm" /> : scrubbing ? 'Stop Scrub' : 'Start Scrub'}
+                        </Button>
+                    </div>
+                )}
+            </CardBody>
+        </Card>
+    );
+};
+
 // #region Common Components (Tables, Modals)
 interface DeleteModalProps {
     isOpen: boolean;
@@ -602,41 +2129,335 @@ const DeleteModal: React.FC<DeleteModalProps> = ({ isOpen, onClose, onConfirm, i
     </Modal>
 );
 
+interface UsageBarProps {
+    used: number;
+    limit: number;
+    title?: string;
+}
+
+// Utilisation bar with warning/critical colouring, shared by the home and share views
+const UsageBar: React.FC<UsageBarProps> = ({ used, limit, title }) => {
+    if (!limit) return <span>{formatBytes(used)}</span>;
+    const percent = Math.min(100, Math.round(used / limit * 100));
+    const variant = usageSeverity(percent);
+    return (
+        <Progress
+            value={percent}
+            size="sm"
+            measureLocation="outside"
+            label={`${formatBytes(used)} of ${formatBytes(limit)} (${percent}%)`}
+            aria-label={title || 'Usage'}
+            {...(title ? { title } : {})}
+            {...(variant ? { variant } : {})}
+        />
+    );
+};
+
+type SortDirection = 'asc' | 'desc' | null;
+
+const nextSortDirection = (direction: SortDirection): SortDirection =>
+    direction === null ? 'desc' : direction === 'desc' ? 'asc' : null;
+
+interface SortableHeaderProps {
+    label: string;
+    direction: SortDirection;
+    onSort: (direction: SortDirection) => void;
+}
+
+const SortableHeader: React.FC<SortableHeaderProps> = ({ label, direction, onSort }) => (
+    <Button variant="plain" isInline onClick={() => onSort(nextSortDirection(direction))} aria-label={`Sort by ${label}`}>
+        {label}{' '}
+        {direction === 'asc' ? <LongArrowAltUpIcon /> : direction === 'desc' ? <LongArrowAltDownIcon /> : <ArrowsAltVIcon />}
+    </Button>
+);
+
+const USAGE_COLUMN = 'Usage';
+
+// Orders rows by how full their dataset is; rows without usage data sort last
+const sortByUsage = <T extends object>(items: T[], getUsage: (item: T) => DatasetUsage | undefined, direction: SortDirection): T[] => {
+    if (!direction) return items;
+    const factor = direction === 'asc' ? 1 : -1;
+    return [...items].sort((a, b) => {
+        const ra = usageRatio(getUsage(a));
+        const rb = usageRatio(getUsage(b));
+        if (ra < 0 || rb < 0) return rb - ra;
+        return (ra - rb) * factor;
+    });
+};
+
+interface DatasetUsageCellProps {
+    usage?: DatasetUsage | undefined;
+}
+
+const DatasetUsageCell: React.FC<DatasetUsageCellProps> = ({ usage }) => (
+    usage
+        ? <UsageBar used={usage.used} limit={usageLimit(usage)} title={usage.quota ? 'Used of quota' : 'Used of available pool space'} />
+        : <>-</>
+);
+
+const describeStepStatus = (status: PlanStepStatus | undefined): React.ReactNode => {
+    if (!status || status === 'pending') return <Label isCompact>pending</Label>;
+    if (status === 'running') return <Spinner size="sm" />;
+    if (status === 'done') return <Label isCompact color="green">done</Label>;
+    if (status === 'skipped') return <Label isCompact color="grey">skipped</Label>;
+    return <HelperText><HelperTextItem variant="error">{status.error}</HelperTextItem></HelperText>;
+};
+
+interface PasswordStrengthProps {
+    password: string;
+    username?: string;
+    policy: EffectivePasswordPolicy | null;
+    onGenerate: (password: string) => void;
+}
+
+// Strength meter, policy summary and generate/copy actions shown below a new-password field
+const PasswordStrength: React.FC<PasswordStrengthProps> = ({ password, username = '', policy, onGenerate }) => {
+    const [copied, setCopied] = useState(false);
+    const { score, label } = passwordStrength(password, username);
+    let variant: 'danger' | 'warning' | 'success' = 'success';
+    if (score <= 1) variant = 'danger';
+    else if (score === 2) variant = 'warning';
+
+    useEffect(() => setCopied(false), [password]);
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(password)
+                .then(() => setCopied(true))
+                .catch(() => setCopied(false));
+    };
+
+    return (
+        <div style={{ marginTop: '0.5rem' }}>
+            {password && (
+                <Progress
+                    value={(score + 1) * 20}
+                    size="sm"
+                    measureLocation="outside"
+                    label={label}
+                    aria-label="Password strength"
+                    variant={variant}
+                />
+            )}
+            {policy && (
+                <HelperText>
+                    <HelperTextItem>{describePasswordPolicy(policy)}</HelperTextItem>
+                </HelperText>
+            )}
+            <Button variant="link" isInline onClick={() => onGenerate(generatePolicyPassword(policy))}>Generate password</Button>{' '}
+            <Button variant="link" isInline onClick={handleCopy} isDisabled={!password}>{copied ? 'Copied' : 'Copy to clipboard'}</Button>
+        </div>
+    );
+};
+
+interface DualListPickerProps {
+    id: string;
+    options: string[];
+    value: string[];
+    onChange: (value: string[]) => void;
+    availableTitle: string;
+    chosenTitle: string;
+    isDisabled?: boolean;
+}
+
+// Two filterable lists; items are moved between them with the buttons in the middle
+const DualListPicker: React.FC<DualListPickerProps> = ({ id, options, value, onChange, availableTitle, chosenTitle, isDisabled = false }) => {
+    const [filters, setFilters] = useState({ available: '', chosen: '' });
+    const [selected, setSelected] = useState<string[]>([]);
+
+    const lists = {
+        available: options.filter(o => !value.includes(o)),
+        chosen: value,
+    };
+
+    const toggle = (item: string) =>
+        setSelected(s => (s.includes(item) ? s.filter(i => i !== item) : [...s, item]));
+
+    const move = (toChosen: boolean) => {
+        const moving = selected.filter(item => (toChosen ? lists.available : lists.chosen).includes(item));
+        onChange(toChosen ? [...value, ...moving] : value.filter(v => !moving.includes(v)));
+        setSelected(s => s.filter(item => !moving.includes(item)));
+    };
+
+    const renderList = (side: 'available' | 'chosen', title: string) => {
+        const filter = filters[side].toLowerCase();
+        const items = lists[side].filter(item => item.toLowerCase().includes(filter));
+        return (
+            <div style={{ flex: 1, minWidth: 0 }}>
+                <strong>{title} ({lists[side].length})</strong>
+                <TextInput
+                    type="search"
+                    id={`${id}-${side}-filter`}
+                    aria-label={`Filter ${title}`}
+                    placeholder="Filter…"
+                    value={filters[side]}
+                    onChange={(_event, v) => setFilters(f => ({ ...f, [side]: v }))}
+                />
+                <div role="listbox" aria-label={title} aria-multiselectable style={{ height: '12rem', overflowY: 'auto', border: '1px solid #d2d2d2' }}>
+                    {items.map(item => (
+                        <Checkbox
+                            key={item}
+                            id={`${id}-${side}-${item}`}
+                            label={item}
+                            isChecked={selected.includes(item)}
+                            isDisabled={isDisabled}
+                            onChange={() => toggle(item)}
+                        />
+                    ))}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div id={id} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+            {renderList('available', availableTitle)}
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                <Button variant="secondary" aria-label="Add selected" onClick={() => move(true)} isDisabled={isDisabled}>&gt;</Button>
+                <Button variant="secondary" aria-label="Add all" onClick={() => onChange([...value, ...lists.available])} isDisabled={isDisabled}>&gt;&gt;</Button>
+                <Button variant="secondary" aria-label="Remove selected" onClick={() => move(false)} isDisabled={isDisabled}>&lt;</Button>
+                <Button variant="secondary" aria-label="Remove all" onClick={() => onChange([])} isDisabled={isDisabled}>&lt;&lt;</Button>
+            </div>
+            {renderList('chosen', chosenTitle)}
+        </div>
+    );
+};
+
+interface PlanStepsTableProps {
+    steps: PlanStep[];
+    statuses: Record<string, PlanStepStatus>;
+    resolutions?: Record<string, 'skip' | 'update'>;
+    onResolve?: (key: string, resolution: 'skip' | 'update') => void;
+    isDisabled?: boolean;
+}
+
+// Lists the commands a plan will run (with secrets redacted) and how far it got
+const PlanStepsTable: React.FC<PlanStepsTableProps> = ({ steps, statuses, resolutions = {}, onResolve, isDisabled = false }) => (
+    <div className="pf-v5-c-table pf-m-compact" role="grid" aria-label="Plan Steps">
+        <div className="pf-v5-c-table__thead" role="rowgroup">
+            <div className="pf-v5-c-table__tr" role="row">
+                {['Item', 'Commands', 'Conflict', 'Status'].map(col => (
+                    <div key={col} role="columnheader" className="pf-v5-c-table__th">{col}</div>
+                ))}
+            </div>
+        </div>
+        <div className="pf-v5-c-table__tbody" role="rowgroup">
+            {steps.map(step => {
+                const resolution = resolutions[step.key] || 'skip';
+                const commands = planStepCommands(step, resolution);
+                return (
+                    <div key={step.key} className="pf-v5-c-table__tr" role="row">
+                        <div role="cell" className="pf-v5-c-table__td">{step.kind} <strong>{step.name}</strong></div>
+                        <div role="cell" className="pf-v5-c-table__td">
+                            {commands.length === 0
+                                ? '-'
+                                : commands.map((c, i) => (
+                                    <div key={i}>
+                                        <code>smb-zfs {redactCommand(c).join(' ')}</code>
+                                        {i === 0 && commands === step.commands && step.password !== undefined && <em> (password on stdin)</em>}
+                                        {i === commands.length - 1 && commands === step.commands && step.mustChangePassword && (
+                                            <em> (must change password at next logon)</em>
+                                        )}
+                                    </div>
+                                ))}
+                        </div>
+                        <div role="cell" className="pf-v5-c-table__td">
+                            {step.conflict && (
+                                <>
+                                    <div>{step.conflict}</div>
+                                    {onResolve && (
+                                        <select
+                                            className="pf-v5-c-form-control"
+                                            value={resolution}
+                                            onChange={(e) => onResolve(step.key, e.target.value as 'skip' | 'update')}
+                                            disabled={isDisabled}
+                                            aria-label={`Conflict resolution for ${step.name}`}
+                                        >
+                                            <option value="skip">Skip</option>
+                                            {step.updateCommands && step.updateCommands.length > 0 && <option value="update">Update to match</option>}
+                                        </select>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                        <div role="cell" className="pf-v5-c-table__td">{describeStepStatus(statuses[step.key])}</div>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+);
+
 // #region Users - Updated with validation
 interface UsersTabProps {
     users: Record<string, UserData>;
+    groups: string[];
     onRefresh: () => void;
 }
 
-const UsersTab: React.FC<UsersTabProps> = ({ users, onRefresh }) => {
+const UsersTab: React.FC<UsersTabProps> = ({ users, groups, onRefresh }) => {
     const [isCreateModalOpen, setCreateModalOpen] = useState(false);
+    const [isBulkImportOpen, setBulkImportOpen] = useState(false);
     const [isModifyModalOpen, setModifyModalOpen] = useState(false);
     const [isDeleteModalOpen, setDeleteModalOpen] = useState(false);
     const [isPasswordModalOpen, setPasswordModalOpen] = useState(false);
+    const [isSnapshotsModalOpen, setSnapshotsModalOpen] = useState(false);
+    const [isAccountModalOpen, setAccountModalOpen] = useState(false);
     const [selectedUser, setSelectedUser] = useState<string | null>(null);
+    const [accounts, setAccounts] = useState<Record<string, SambaAccount>>({});
+    const [accountsError, setAccountsError] = useState<string | null>(null);
+
+    const loadAccounts = useCallback(() => {
+        sambaApi.getAccounts()
+                .then(result => {
+                    setAccounts(result);
+                    setAccountsError(null);
+                })
+                .catch(err => setAccountsError(err.message));
+    }, []);
+
+    useEffect(() => {
+        loadAccounts();
+    }, [users, loadAccounts]);
 
     const handleAction = (action: string, user: string) => {
         setSelectedUser(user);
         if (action === 'modify') setModifyModalOpen(true);
         if (action === 'delete') setDeleteModalOpen(true);
         if (action === 'password') setPasswordModalOpen(true);
+        if (action === 'snapshots') setSnapshotsModalOpen(true);
+        if (action === 'account') setAccountModalOpen(true);
+        if (action === 'unlock' && accounts[user]) {
+            sambaApi.unlockAccount(accounts[user])
+                    .then(loadAccounts)
+                    .catch(err => setAccountsError(err.message));
+        }
     };
 
     return (
         <PageSection>
             <div style={{ display: 'flex', justifyContent: 'flex-end', paddingBottom: '1rem' }}>
+                <Button variant="secondary" onClick={() => setBulkImportOpen(true)} style={{ marginRight: '0.5rem' }}>Import CSV</Button>
                 <Button variant="primary" onClick={() => setCreateModalOpen(true)}>Create User</Button>
             </div>
-            <UsersTable users={users} onAction={handleAction} />
+            {accountsError && <Alert variant="warning" isInline title="Cannot read Samba account state">{accountsError}</Alert>}
+            <UsersTable users={users} accounts={accounts} onAction={handleAction} />
 
             <CreateUserModal isOpen={isCreateModalOpen} onClose={() => setCreateModalOpen(false)} onSave={onRefresh} />
+            <BulkImportUsersModal
+                isOpen={isBulkImportOpen}
+                onClose={() => setBulkImportOpen(false)}
+                onSave={onRefresh}
+                existingUsers={Object.keys(users)}
+            />
             {selectedUser && <>
                 <ModifyUserModal
+                    key={selectedUser}
                     isOpen={isModifyModalOpen}
                     onClose={() => setModifyModalOpen(false)}
                     onSave={onRefresh}
                     user={selectedUser}
                     userData={users[selectedUser]}
+                    groups={groups}
                 />
                 <DeleteUserModal
                     isOpen={isDeleteModalOpen}
@@ -650,6 +2471,21 @@ const UsersTab: React.FC<UsersTabProps> = ({ users, onRefresh }) => {
                     onSave={onRefresh}
                     user={selectedUser}
                 />
+                <AccountStateModal
+                    isOpen={isAccountModalOpen}
+                    onClose={() => setAccountModalOpen(false)}
+                    onSave={loadAccounts}
+                    user={selectedUser}
+                    account={accounts[selectedUser]}
+                />
+                {users[selectedUser]?.dataset && (
+                    <SnapshotsModal
+                        isOpen={isSnapshotsModalOpen}
+                        onClose={() => setSnapshotsModalOpen(false)}
+                        dataset={users[selectedUser].dataset.name}
+                        label={`home of ${selectedUser}`}
+                    />
+                )}
             </>}
         </PageSection>
     );
@@ -657,28 +2493,44 @@ const UsersTab: React.FC<UsersTabProps> = ({ users, onRefresh }) => {
 
 interface UsersTableProps {
     users: Record<string, UserData>;
+    accounts?: Record<string, SambaAccount>; // adds the Account column when given
     onAction?: (action: string, user: string) => void;
     isReadOnly?: boolean;
 }
 
-const UsersTable: React.FC<UsersTableProps> = ({ users, onAction, isReadOnly = false }) => {
-    const columns = ['Username', 'Shell Access', 'Groups', 'Quota', 'Created'];
+const UsersTable: React.FC<UsersTableProps> = ({ users, accounts, onAction, isReadOnly = false }) => {
+    const [usageSort, setUsageSort] = useState<SortDirection>(null);
+    const usage = useDatasetUsage(Object.values(users).map(u => u.dataset?.name)
+            .filter(Boolean) as string[]);
+
+    const homeUsageOf = (data: UserData) => (data.dataset ? usage[data.dataset.name] : undefined);
+
+    const columns = ['Username', 'Shell Access', 'Groups', 'Quota', USAGE_COLUMN, 'Available', 'Referenced', 'Created'];
+    if (accounts) columns.splice(1, 0, 'Account');
     if (!isReadOnly) columns.push('');
 
-    const rows = Object.entries(users).map(([name, data]) => ({
-        name,
-        cells: [
+    const rows = sortByUsage(Object.entries(users), ([, data]) => homeUsageOf(data), usageSort).map(([name, data]) => {
+        const homeUsage = homeUsageOf(data);
+        return {
             name,
-            data.shell_access ? 'Yes' : 'No',
-            data.groups.join(', ') || '-',
-            data.dataset?.quota || 'Default',
-            new Date(data.created).toLocaleString()
-        ]
-    }));
+            cells: [
+                name,
+                ...(accounts ? [<AccountStatusCell key="account" account={accounts[name]} />] : []),
+                data.shell_access ? 'Yes' : 'No',
+                data.groups.join(', ') || '-',
+                data.dataset?.quota || 'Default',
+                <DatasetUsageCell key="usage" usage={homeUsage} />,
+                homeUsage ? formatBytes(homeUsage.available) : '-',
+                homeUsage ? formatBytes(homeUsage.referenced) : '-',
+                new Date(data.created).toLocaleString()
+            ]
+        };
+    });
 
     const actions = (user: string) => [
-        { title: 'Modify Home Quota', onClick: () => onAction?.('modify', user) },
+        { title: 'Modify User', onClick: () => onAction?.('modify', user) },
         { title: 'Change Password', onClick: () => onAction?.('password', user) },
+        { title: 'Account State', onClick: () => onAction?.('account', user) },
         { isSeparator: true as const },
         { title: 'Delete User', onClick: () => onAction?.('delete', user) },
     ];
@@ -688,7 +2540,9 @@ const UsersTable: React.FC<UsersTableProps> = ({ users, onAction, isReadOnly = f
             <div className="pf-v5-c-table__thead" role="rowgroup">
                 <div className="pf-v5-c-table__tr" role="row">
                     {columns.map((col, i) => (
-                        <div key={i} role="columnheader" className="pf-v5-c-table__th">{col}</div>
+                        <div key={i} role="columnheader" className="pf-v5-c-table__th">
+                            {col === USAGE_COLUMN ? <SortableHeader label={col} direction={usageSort} onSort={setUsageSort} /> : col}
+                        </div>
                     ))}
                     {!isReadOnly && <div className="pf-v5-c-table__th" />}
                 </div>
@@ -704,6 +2558,15 @@ const UsersTable: React.FC<UsersTableProps> = ({ users, onAction, isReadOnly = f
                                 <div className="pf-v5-c-dropdown">
                                     <button className="pf-v5-c-button pf-m-primary" type="button" onClick={() => onAction?.('modify', row.name)}>Modify</button>
                                     <button className="pf-v5-c-button pf-m-secondary" type="button" onClick={() => onAction?.('password', row.name)}>Password</button>
+                                    {accounts && (
+                                        <button className="pf-v5-c-button pf-m-secondary" type="button" onClick={() => onAction?.('account', row.name)}>Account</button>
+                                    )}
+                                    {accounts?.[row.name]?.locked && (
+                                        <button className="pf-v5-c-button pf-m-secondary" type="button" onClick={() => onAction?.('unlock', row.name)}>Unlock</button>
+                                    )}
+                                    {users[row.name].dataset && (
+                                        <button className="pf-v5-c-button pf-m-secondary" type="button" onClick={() => onAction?.('snapshots', row.name)}>Snapshots</button>
+                                    )}
                                     <button className="pf-v5-c-button pf-m-danger" type="button" onClick={() => onAction?.('delete', row.name)}>Delete</button>
                                 </div>
                             </div>
@@ -715,6 +2578,128 @@ const UsersTable: React.FC<UsersTableProps> = ({ users, onAction, isReadOnly = f
     );
 };
 
+interface AccountStatusCellProps {
+    account: SambaAccount | undefined;
+}
+
+const AccountStatusCell: React.FC<AccountStatusCellProps> = ({ account }) => {
+    if (!account) return <Label isCompact color="grey">No Samba account</Label>;
+    return (
+        <>
+            {account.disabled && <Label isCompact color="grey">Disabled</Label>}
+            {account.locked && <Label isCompact color="red">Locked</Label>}
+            {isAccountExpired(account) && <Label isCompact color="red">Expired</Label>}
+            {account.mustChange !== null && Date.parse(account.mustChange) <= Date.now() && (
+                <Label isCompact color="orange">Must change password</Label>
+            )}
+            {!account.disabled && !account.locked && !isAccountExpired(account) && <Label isCompact color="green">Active</Label>}
+            {account.badPasswordCount > 0 && <div><small>{account.badPasswordCount} bad password(s)</small></div>}
+        </>
+    );
+};
+
+interface AccountStateModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: () => void;
+    user: string;
+    account: SambaAccount | undefined;
+}
+
+const AccountStateModal: React.FC<AccountStateModalProps> = ({ isOpen, onClose, onSave, user, account }) => {
+    const [expiry, setExpiry] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setExpiry(account?.expires ? kickoffDate(account.expires) : '');
+    }, [account]);
+
+    const run = (action: () => Promise<unknown>) => {
+        setLoading(true);
+        setError(null);
+        action()
+                .then(onSave)
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    };
+
+    const mustChange = account?.mustChange !== null && account?.mustChange !== undefined && Date.parse(account.mustChange) <= Date.now();
+
+    return (
+        <Modal
+            variant={ModalVariant.medium}
+            title={`Account State for ${user}`}
+            isOpen={isOpen}
+            onClose={onClose}
+        >
+            {error && <Alert variant="danger" title="Failed to update the account">{error}</Alert>}
+            {!account
+                ? <Alert variant="warning" isInline title={`${user} has no Samba account.`} />
+                : (
+                    <Form>
+                        <FormGroup label="Status" fieldId="account-status">
+                            <AccountStatusCell account={account} />
+                            <Content>
+                                <p>
+                                    Password last set: {account.passwordLastSet || 'unknown'}<br />
+                                    Password must change: {account.mustChange || 'never'}<br />
+                                    Account expires: {account.expires || 'never'}
+                                </p>
+                            </Content>
+                        </FormGroup>
+                        <FormGroup label="Access" fieldId="account-access">
+                            <div>
+                                <Button
+                                    variant={account.disabled ? 'primary' : 'danger'}
+                                    onClick={() => run(() => sambaApi.setAccountEnabled(user, account.disabled))}
+                                    isDisabled={loading}
+                                >
+                                    {account.disabled ? 'Enable Account' : 'Disable Account'}
+                                </Button>{' '}
+                                <Button
+                                    variant="secondary"
+                                    onClick={() => run(() => sambaApi.unlockAccount(account))}
+                                    isDisabled={loading || (!account.locked && account.badPasswordCount === 0)}
+                                >
+                                    Unlock and Reset Bad Password Count
+                                </Button>
+                            </div>
+                        </FormGroup>
+                        <FormGroup label="Account Expires" fieldId="account-expiry">
+                            <div style={{ display: 'flex', gap: '0.5rem' }}>
+                                <TextInput
+                                    type="date"
+                                    id="account-expiry"
+                                    value={expiry}
+                                    onChange={(_event, value) => setExpiry(value)}
+                                />
+                                <Button variant="secondary" onClick={() => run(() => sambaApi.setAccountExpiry(user, expiry))} isDisabled={loading || !expiry}>
+                                    Set
+                                </Button>
+                                <Button variant="link" onClick={() => run(() => sambaApi.setAccountExpiry(user, null))} isDisabled={loading || !account.expires}>
+                                    Never
+                                </Button>
+                            </div>
+                        </FormGroup>
+                        <FormGroup fieldId="account-must-change">
+                            <Checkbox
+                                id="account-must-change"
+                                label="User must change password at next logon"
+                                isChecked={mustChange}
+                                isDisabled={loading}
+                                onChange={(_event, checked) => run(() => sambaApi.setMustChangePassword(user, checked))}
+                            />
+                        </FormGroup>
+                    </Form>
+                )}
+            <div className="pf-v5-c-modal-box__footer">
+                <Button key="close" variant="link" onClick={onClose}>Close</Button>
+            </div>
+        </Modal>
+    );
+};
+
 interface CreateUserModalProps {
     isOpen: boolean;
     onClose: () => void;
@@ -722,8 +2707,9 @@ interface CreateUserModalProps {
 }
 
 const CreateUserModal: React.FC<CreateUserModalProps> = ({ isOpen, onClose, onSave }) => {
+    const policy = usePasswordPolicy();
     const userName = useValidation('', (value) => validateName(value, 'user'));
-    const password = useValidation('', validatePassword);
+    const password = useValidation('', (value) => validatePassword(value, undefined, policy, userName.value));
     const groups = useValidation('', validateUserList);
 
     const [shell, setShell] = useState(false);
@@ -745,13 +2731,7 @@ const CreateUserModal: React.FC<CreateUserModalProps> = ({ isOpen, onClose, onSa
 
         setLoading(true);
         setError(null);
-        const command = ['create', 'user', userName.value];
-        if (password.value) command.push('--password', password.value);
-        if (shell) command.push('--shell');
-        if (groups.value) command.push('--groups', groups.value);
-        if (noHome) command.push('--no-home');
-
-        smbZfsApi.run(command)
+        smbZfsApi.createUser(userName.value, password.value, { shell, groups: splitList(groups.value), home: !noHome })
             .then(() => { onSave(); onClose(); })
             .catch(err => setError(err.message))
             .finally(() => setLoading(false));
@@ -805,6 +2785,12 @@ const CreateUserModal: React.FC<CreateUserModalProps> = ({ isOpen, onClose, onSa
                             </HelperText>
                         </FormHelperText>
                     )}
+                    <PasswordStrength
+                        password={password.value}
+                        username={userName.value}
+                        policy={policy}
+                        onGenerate={(value) => password.handleChange(value)}
+                    />
                 </FormGroup>
 
                 <FormGroup label="Groups" fieldId="user-groups">
@@ -859,116 +2845,431 @@ interface ModifyUserModalProps {
     onSave: () => void;
     user: string;
     userData: UserData;
+    groups: string[];
 }
 
-const ModifyUserModal: React.FC<ModifyUserModalProps> = ({ isOpen, onClose, onSave, user, userData }) => {
+// Shell access and the home dataset are fixed when smb-zfs creates a user, so they are shown read-only
+const ModifyUserModal: React.FC<ModifyUserModalProps> = ({ isOpen, onClose, onSave, user, userData, groups }) => {
     const quota = useValidation(userData?.dataset?.quota || '', validateQuota);
+    const [memberOf, setMemberOf] = useState<string[]>(userData.groups);
+    // What the server has after the commands applied so far; the state is only refreshed when the modal closes
+    const [savedGroups, setSavedGroups] = useState<string[]>(userData.groups);
+    const [savedQuota, setSavedQuota] = useState(userData.dataset?.quota || '');
+    const [changed, setChanged] = useState(false);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const usage = useDatasetUsage(userData.dataset ? [userData.dataset.name] : []);
+    const mountpoint = userData.dataset ? usage[userData.dataset.name]?.mountpoint : undefined;
+
+    const toggleGroup = (group: string, checked: boolean) =>
+        setMemberOf(current => (checked ? [...current, group] : current.filter(g => g !== group)));
+
+    const changes = (): { command: string[]; applied: () => void }[] => {
+        const result: { command: string[]; applied: () => void }[] = [];
+        memberOf.filter(g => !savedGroups.includes(g))
+                .forEach(g => result.push({
+                    command: smbZfsCommands.modifyGroup(g, { addUsers: [user] }),
+                    applied: () => setSavedGroups(current => [...current, g]),
+                }));
+        savedGroups.filter(g => !memberOf.includes(g))
+                .forEach(g => result.push({
+                    command: smbZfsCommands.modifyGroup(g, { removeUsers: [user] }),
+                    applied: () => setSavedGroups(current => current.filter(c => c !== g)),
+                }));
+        if (userData.dataset && quota.value !== savedQuota) {
+            const value = quota.value;
+            result.push({ command: smbZfsCommands.modifyHome(user, value), applied: () => setSavedQuota(value) });
+        }
+        return result;
+    };
 
-    const handleSave = () => {
+    const handleClose = () => {
+        if (changed) onSave();
+        onClose();
+    };
+
+    const handleSave = async () => {
         quota.handleBlur();
         if (!quota.isValid) return;
 
         setLoading(true);
         setError(null);
-        smbZfsApi.run(['modify', 'home', user, '--quota', quota.value || 'none'])
-            .then(() => { onSave(); onClose(); })
-            .catch(err => setError(err.message))
-            .finally(() => setLoading(false));
+        try {
+            for (const change of changes()) {
+                await smbZfsApi.run(change.command);
+                change.applied();
+                setChanged(true);
+            }
+            onSave();
+            onClose();
+        } catch (err) {
+            // Earlier commands may have been applied; the state is refreshed when the modal is closed
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setLoading(false);
+        }
     };
 
     return (
         <Modal
             variant={ModalVariant.medium}
-            title={`Modify Home Quota for ${user}`}
+            title={`Modify User ${user}`}
             isOpen={isOpen}
-            onClose={onClose}
+            onClose={handleClose}
         >
-            {error && <Alert variant="danger" title="Failed to modify quota">{error}</Alert>}
+            {error && <Alert variant="danger" title="Failed to modify user">{error}</Alert>}
             <Form>
-                <FormGroup
-                    label="New Quota"
-                    fieldId="user-quota"
-                >
-                    <FormHelperText>
-                        <HelperText>
-                            <HelperTextItem>
-                                e.g., 20G. Leave empty or use 'none' to remove.
-                            </HelperTextItem>
-                        </HelperText>
-                    </FormHelperText>
-                    <TextInput
-                        type="text"
-                        id="user-quota"
-                        value={quota.value}
-                        onChange={(_event, value) => quota.handleChange(value)}
-                        onBlur={() => quota.handleBlur()}
-                        validated={quota.error ? 'error' : 'default'}
-                    />
-                    {quota.error && (
+                <FormGroup label="Shell Access" fieldId="modify-user-shell">
+                    <Content id="modify-user-shell">
+                        <p>{userData.shell_access ? 'Standard shell' : 'No shell'} (set when the user was created)</p>
+                    </Content>
+                </FormGroup>
+
+                <FormGroup label="Groups" fieldId="modify-user-groups">
+                    {groups.length === 0
+                        ? <Content><p>No groups defined.</p></Content>
+                        : (
+                            <div id="modify-user-groups" style={{ maxHeight: '12rem', overflowY: 'auto' }}>
+                                {groups.map(group => (
+                                    <Checkbox
+                                        key={group}
+                                        id={`modify-user-group-${group}`}
+                                        label={group}
+                                        isChecked={memberOf.includes(group)}
+                                        onChange={(_event, checked) => toggleGroup(group, checked)}
+                                    />
+                                ))}
+                            </div>
+                        )}
+                </FormGroup>
+
+                <FormGroup label="Home" fieldId="modify-user-home">
+                    {userData.dataset
+                        ? (
+                            <Content>
+                                <p>
+                                    Pool: {userData.dataset.pool}<br />
+                                    Dataset: <code>{userData.dataset.name}</code><br />
+                                    Mountpoint: {mountpoint ? <code>{mountpoint}</code> : '-'}
+                                </p>
+                            </Content>
+                        )
+                        : <Content id="modify-user-home"><p>No home dataset (set when the user was created)</p></Content>}
+                </FormGroup>
+
+                {userData.dataset && smbZfsApi.supports('homeQuota') && (
+                    <FormGroup
+                        label="Home Quota"
+                        fieldId="user-quota"
+                    >
                         <FormHelperText>
                             <HelperText>
-                                <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
-                                    {quota.error}
+                                <HelperTextItem>
+                                    e.g., 20G. Leave empty or use 'none' to remove.
                                 </HelperTextItem>
                             </HelperText>
                         </FormHelperText>
-                    )}
-                </FormGroup>
+                        <TextInput
+                            type="text"
+                            id="user-quota"
+                            value={quota.value}
+                            onChange={(_event, value) => quota.handleChange(value)}
+                            onBlur={() => quota.handleBlur()}
+                            validated={quota.error ? 'error' : 'default'}
+                        />
+                        {quota.error && (
+                            <FormHelperText>
+                                <HelperText>
+                                    <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
+                                        {quota.error}
+                                    </HelperTextItem>
+                                </HelperText>
+                            </FormHelperText>
+                        )}
+                    </FormGroup>
+                )}
             </Form>
             <div className="pf-v5-c-modal-box__footer">
-                <Button key="save" variant="primary" onClick={handleSave} isDisabled={!!loading || !quota.isValid}>
+                <Button key="save" variant="primary" onClick={handleSave} isDisabled={!!loading || !quota.isValid || changes().length === 0}>
                     {loading ? <Spinner size="sm" /> : 'Save'}
                 </Button>
-                <Button key="cancel" variant="link" onClick={onClose}>Cancel</Button>
+                <Button key="cancel" variant="link" onClick={handleClose}>Cancel</Button>
             </div>
         </Modal>
     );
 };
 
-interface DeleteUserModalProps {
+const BULK_USER_COLUMNS = ['username', 'groups', 'shell', 'quota', 'password'];
+
+interface BulkUserRow {
+    line: number;
+    username: string;
+    groups: string;
+    shell: boolean;
+    quota: string;
+    password: string;
+    generated: boolean;
+    errors: string[];
+}
+
+// Reads username,groups,shell,quota,password rows; a header row may reorder or omit the optional columns
+const parseBulkUsers = (text: string, existingUsers: string[], policy: EffectivePasswordPolicy | null): BulkUserRow[] => {
+    const records = parseCsv(text);
+    const hasHeader = records[0]?.[0]?.trim().toLowerCase() === 'username';
+    const columns = hasHeader ? records[0].map(h => h.trim().toLowerCase()) : BULK_USER_COLUMNS;
+    const seen = new Set<string>();
+
+    return records.slice(hasHeader ? 1 : 0).map((record, i) => {
+        const get = (column: string) => (record[columns.indexOf(column)] ?? '').trim();
+        const errors: string[] = [];
+        const username = get('username');
+        const groups = get('groups').replace(/[;\s]+/g, ',')
+                .replace(/^,+|,+$/g, '');
+        const shellValue = get('shell').toLowerCase();
+        const quota = get('quota');
+        const password = get('password');
+
+        const name = validateName(username, 'user');
+        if (!name.isValid) errors.push(name.error || 'Invalid username.');
+        else if (existingUsers.includes(username)) errors.push(`User '${username}' already exists.`);
+        else if (seen.has(username)) errors.push(`User '${username}' appears more than once.`);
+        seen.add(username);
+        const groupList = validateUserList(groups);
+        if (!groupList.isValid) errors.push(groupList.error || 'Invalid groups.');
+        if (shellValue && !['yes', 'no', 'true', 'false', '1', '0', 'y', 'n'].includes(shellValue)) {
+            errors.push(`Shell must be yes or no, not '${shellValue}'.`);
+        }
+        const quotaCheck = validateQuota(quota);
+        if (!quotaCheck.isValid) errors.push(quotaCheck.error || 'Invalid quota.');
+        if (password && policy) errors.push(...checkPasswordPolicy(password, policy, username));
+
+        return {
+            line: i + (hasHeader ? 2 : 1),
+            username,
+            groups,
+            shell: ['yes', 'true', '1', 'y'].includes(shellValue),
+            quota,
+            password: password || generatePolicyPassword(policy),
+            generated: !password,
+            errors,
+        };
+    });
+};
+
+interface BulkImportUsersModalProps {
     isOpen: boolean;
     onClose: () => void;
     onSave: () => void;
-    user: string;
+    existingUsers: string[];
 }
 
-const DeleteUserModal: React.FC<DeleteUserModalProps> = ({ isOpen, onClose, onSave, user }) => {
-    const [deleteData, setDeleteData] = useState(false);
-    const [loading, setLoading] = useState(false);
+const BulkImportUsersModal: React.FC<BulkImportUsersModalProps> = ({ isOpen, onClose, onSave, existingUsers }) => {
+    const policy = usePasswordPolicy();
+    const [rows, setRows] = useState<BulkUserRow[]>([]);
+    const [statuses, setStatuses] = useState<Record<number, PlanStepStatus>>({});
+    const [running, setRunning] = useState(false);
+    const [finished, setFinished] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    // Lines whose account exists, even if setting its quota failed afterwards
+    const [createdLines, setCreatedLines] = useState<number[]>([]);
 
-    const handleConfirm = () => {
-        setLoading(true);
+    const validRows = rows.filter(r => r.errors.length === 0);
+    const createdRows = rows.filter(r => createdLines.includes(r.line));
+
+    const handleFile = (file: File | undefined) => {
+        if (!file) return;
         setError(null);
-        const command = ['delete', 'user', user, '--yes'];
-        if (deleteData) command.push('--delete-data');
+        setStatuses({});
+        setCreatedLines([]);
+        setFinished(false);
+        file.text()
+                .then(text => {
+                    const parsed = parseBulkUsers(text, existingUsers, policy);
+                    if (parsed.length === 0) throw new Error("The file contains no users.");
+                    setRows(parsed);
+                })
+                .catch(err => {
+                    setRows([]);
+                    setError(err.message);
+                });
+    };
 
-        smbZfsApi.run(command)
-            .then(() => { onSave(); onClose(); })
-            .catch(err => setError(err.message))
-            .finally(() => setLoading(false));
+    // Every row is attempted; a failed row does not stop the ones after it
+    const handleImport = async () => {
+        setRunning(true);
+        for (const row of validRows) {
+            setStatuses(s => ({ ...s, [row.line]: 'running' }));
+            try {
+                await smbZfsApi.createUser(row.username, row.password, { shell: row.shell, groups: splitList(row.groups) });
+                setCreatedLines(c => [...c, row.line]);
+                if (row.quota) await smbZfsApi.modifyHome(row.username, row.quota);
+                setStatuses(s => ({ ...s, [row.line]: 'done' }));
+            } catch (err) {
+                setStatuses(s => ({ ...s, [row.line]: { error: err instanceof Error ? err.message : String(err) } }));
+            }
+        }
+        setRunning(false);
+        setFinished(true);
+    };
+
+    const downloadCredentials = () => {
+        const lines = createdRows.map(r => [r.username, r.password, r.groups].map(csvEscape).join(','));
+        downloadFile('smb-zfs-user-credentials.csv', ['username,password,groups', ...lines].join('\n'), 'text/csv');
+    };
+
+    const handleClose = () => {
+        if (finished) onSave();
+        setRows([]);
+        setStatuses({});
+        setCreatedLines([]);
+        setFinished(false);
+        onClose();
     };
 
     return (
         <Modal
-            variant={ModalVariant.small}
-            title={`Delete User ${user}`}
+            variant={ModalVariant.large}
+            title="Import Users from CSV"
             isOpen={isOpen}
-            onClose={onClose}
+            onClose={handleClose}
         >
-            {error && <Alert variant="danger" title="Failed to delete user">{error}</Alert>}
-            <p>Are you sure you want to delete user <strong>{user}</strong>?</p>
-            <Checkbox
-                label="Permanently delete the user's ZFS home directory."
-                id={`delete-data-user-${user}`}
-                isChecked={deleteData}
-                onChange={(_event, checked) => setDeleteData(checked)}
-            />
-            <div className="pf-v5-c-modal-box__footer">
-                <Button key="confirm" variant="danger" onClick={handleConfirm} isDisabled={!!loading}>
-                    {loading ? <Spinner size="sm" /> : 'Delete'}
+            {error && <Alert variant="danger" title="Cannot read the file">{error}</Alert>}
+            <Form>
+                <FormGroup label="CSV File" fieldId="bulk-users-file">
+                    <input
+                        type="file"
+                        id="bulk-users-file"
+                        accept="text/csv,.csv"
+                        className="pf-v5-c-form-control"
+                        onChange={(e) => handleFile(e.target.files?.[0])}
+                        disabled={running}
+                    />
+                    <FormHelperText>
+                        <HelperText>
+                            <HelperTextItem>
+                                Columns: {BULK_USER_COLUMNS.join(', ')}. Groups may be separated by semicolons, shell is yes or no,
+                                and rows without a password get a generated one.
+                            </HelperTextItem>
+                        </HelperText>
+                    </FormHelperText>
+                </FormGroup>
+            </Form>
+            {rows.length > 0 && (
+                <div className="smbzfs-table-wrap" style={{ marginTop: '1rem' }}>
+                    <div className="pf-v5-c-table pf-m-compact" role="grid" aria-label="Users to Import">
+                        <div className="pf-v5-c-table__thead" role="rowgroup">
+                            <div className="pf-v5-c-table__tr" role="row">
+                                {['Line', 'Username', 'Groups', 'Shell', 'Quota', 'Password', 'Status'].map(col => (
+                                    <div key={col} role="columnheader" className="pf-v5-c-table__th">{col}</div>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="pf-v5-c-table__tbody" role="rowgroup">
+                            {rows.map(row => (
+                                <div key={row.line} className="pf-v5-c-table__tr" role="row">
+                                    <div role="cell" className="pf-v5-c-table__td">{row.line}</div>
+                                    <div role="cell" className="pf-v5-c-table__td">{row.username || '-'}</div>
+                                    <div role="cell" className="pf-v5-c-table__td">{row.groups || '-'}</div>
+                                    <div role="cell" className="pf-v5-c-table__td">{row.shell ? 'Yes' : 'No'}</div>
+                                    <div role="cell" className="pf-v5-c-table__td">{row.quota || 'Default'}</div>
+                                    <div role="cell" className="pf-v5-c-table__td">{row.generated ? 'generated' : 'from file'}</div>
+                                    <div role="cell" className="pf-v5-c-table__td">
+                                        {row.errors.length > 0
+                                            ? (
+                                                <HelperText>
+                                                    {row.errors.map((e, i) => <HelperTextItem key={i} variant="error" icon={<ExclamationTriangleIcon />}>{e}</HelperTextItem>)}
+                                                </HelperText>
+                                            )
+                                            : describeStepStatus(statuses[row.line])}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+            {rows.length > validRows.length && !finished && (
+                <Alert variant="warning" isInline style={{ marginTop: '1rem' }} title={`${rows.length - validRows.length} row(s) with errors will be skipped.`} />
+            )}
+            <div className="pf-v5-c-modal-box__footer">
+                {!finished && (
+                    <Button key="confirm" variant="primary" onClick={handleImport} isDisabled={running || validRows.length === 0}>
+                        {running ? <Spinner size="sm" /> : `Import ${validRows.length} User${validRows.length === 1 ? '' : 's'}`}
+                    </Button>
+                )}
+                {createdRows.length > 0 && (
+                    <Button key="credentials" variant="primary" onClick={downloadCredentials}>Download Credential Sheet</Button>
+                )}
+                <Button key="cancel" variant="link" onClick={handleClose} isDisabled={running}>{finished ? 'Close' : 'Cancel'}</Button>
+            </div>
+        </Modal>
+    );
+};
+
+interface DeleteUserModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: () => void;
+    user: string;
+}
+
+const DeleteUserModal: React.FC<DeleteUserModalProps> = ({ isOpen, onClose, onSave, user }) => {
+    const [deleteData, setDeleteData] = useState(false);
+    const [sessionCount, setSessionCount] = useState(0);
+    const [disconnect, setDisconnect] = useState(true);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        sambaApi.getStatus()
+                .then(status => setSessionCount(status.sessions.filter(s => s.username === user).length))
+                .catch(() => setSessionCount(0));
+    }, [isOpen, user]);
+
+    const handleConfirm = () => {
+        setLoading(true);
+        setError(null);
+        // Open sessions keep serving files to a user that no longer exists, so close them first
+        const disconnected = sessionCount > 0 && disconnect ? sambaApi.disconnectUser(user) : Promise.resolve();
+        disconnected
+                .then(() => smbZfsApi.deleteUser(user, deleteData))
+                .then(() => {
+                    onSave();
+                    onClose();
+                })
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    };
+
+    return (
+        <Modal
+            variant={ModalVariant.small}
+            title={`Delete User ${user}`}
+            isOpen={isOpen}
+            onClose={onClose}
+        >
+            {error && <Alert variant="danger" title="Failed to delete user">{error}</Alert>}
+            <p>Are you sure you want to delete user <strong>{user}</strong>?</p>
+            <Checkbox
+                label="Permanently delete the user's ZFS home directory."
+                id={`delete-data-user-${user}`}
+                isChecked={deleteData}
+                onChange={(_event, checked) => setDeleteData(checked)}
+            />
+            {sessionCount > 0 && (
+                <Alert variant="warning" isInline title={`${user} has ${sessionCount} active SMB session${sessionCount === 1 ? '' : 's'}`}>
+                    <Checkbox
+                        label="Disconnect the sessions before deleting the user."
+                        id={`disconnect-user-${user}`}
+                        isChecked={disconnect}
+                        onChange={(_event, checked) => setDisconnect(checked)}
+                    />
+                </Alert>
+            )}
+            <div className="pf-v5-c-modal-box__footer">
+                <Button key="confirm" variant="danger" onClick={handleConfirm} isDisabled={!!loading}>
+                    {loading ? <Spinner size="sm" /> : 'Delete'}
                 </Button>
                 <Button key="cancel" variant="link" onClick={onClose}>Cancel</Button>
             </div>
@@ -984,8 +3285,10 @@ interface ChangePasswordModalProps {
 }
 
 const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClose, onSave, user }) => {
-    const password = useValidation('', validatePassword);
-    const confirm = useValidation('', (value) => validatePassword(value, password.value));
+    const policy = usePasswordPolicy();
+    const password = useValidation('', (value) => validatePassword(value, undefined, policy, user));
+    // The password to match is passed in when it changed in the same event
+    const confirm = useValidation('', (value, against = password.value) => validatePassword(value, against));
 
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -1002,13 +3305,10 @@ const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClo
 
         setLoading(true);
         setError(null);
-        // passwd supports --json according to completion; keep it
-        const proc = cockpit.spawn(["smb-zfs", "passwd", user, "--json"], { superuser: "require" });
-        proc.input(password.value + "\n" + password.value + "\n", true);
-        proc.stream((output: string) => console.log(output))
-           .then(() => { onSave(); onClose(); })
-           .catch((err: any) => setError(err.message || "Failed to change password."))
-           .finally(() => setLoading(false));
+        smbZfsApi.setPassword(user, password.value)
+                .then(() => { onSave(); onClose(); })
+                .catch(err => setError(err.message || "Failed to change password."))
+                .finally(() => setLoading(false));
     };
 
     return (
@@ -1030,7 +3330,7 @@ const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClo
                             password.handleChange(value);
                             // Re-validate confirm password when main password changes
                             if (confirm.touched) {
-                                confirm.handleChange(confirm.value);
+                                confirm.handleChange(confirm.value, value);
                             }
                         }}
                         onBlur={() => password.handleBlur()}
@@ -1045,6 +3345,15 @@ const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClo
                             </HelperText>
                         </FormHelperText>
                     )}
+                    <PasswordStrength
+                        password={password.value}
+                        username={user}
+                        policy={policy}
+                        onGenerate={(value) => {
+                            password.handleChange(value);
+                            confirm.handleChange(value, value);
+                        }}
+                    />
                 </FormGroup>
 
                 <FormGroup label="Confirm New Password" isRequired fieldId="confirm-password">
@@ -1094,6 +3403,7 @@ const GroupsTab: React.FC<GroupsTabProps> = ({ groups, users, onRefresh }) => {
     const [isCreateModalOpen, setCreateModalOpen] = useState(false);
     const [isModifyModalOpen, setModifyModalOpen] = useState(false);
     const [isDeleteModalOpen, setDeleteModalOpen] = useState(false);
+    const [isMatrixOpen, setMatrixOpen] = useState(false);
     const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
 
     const handleAction = (action: string, group: string) => {
@@ -1105,13 +3415,22 @@ const GroupsTab: React.FC<GroupsTabProps> = ({ groups, users, onRefresh }) => {
     return (
         <PageSection>
             <div style={{ display: 'flex', justifyContent: 'flex-end', paddingBottom: '1rem' }}>
+                <Button variant="secondary" onClick={() => setMatrixOpen(true)} style={{ marginRight: '0.5rem' }}>Membership Matrix</Button>
                 <Button variant="primary" onClick={() => setCreateModalOpen(true)}>Create Group</Button>
             </div>
             <GroupsTable groups={groups} onAction={handleAction} />
 
             <CreateGroupModal isOpen={isCreateModalOpen} onClose={() => setCreateModalOpen(false)} onSave={onRefresh} />
+            <MembershipMatrixModal
+                isOpen={isMatrixOpen}
+                onClose={() => setMatrixOpen(false)}
+                onSave={onRefresh}
+                groups={groups}
+                users={users}
+            />
             {selectedGroup && <>
                 <ModifyGroupModal
+                    key={selectedGroup}
                     isOpen={isModifyModalOpen}
                     onClose={() => setModifyModalOpen(false)}
                     onSave={onRefresh}
@@ -1122,7 +3441,8 @@ const GroupsTab: React.FC<GroupsTabProps> = ({ groups, users, onRefresh }) => {
                 <DeleteModal
                     isOpen={isDeleteModalOpen}
                     onClose={() => setDeleteModalOpen(false)}
-                    onConfirm={() => smbZfsApi.run(['delete', 'group', selectedGroup]).then(onRefresh).then(() => setDeleteModalOpen(false))}
+                    onConfirm={() => smbZfsApi.deleteGroup(selectedGroup).then(onRefresh)
+                            .then(() => setDeleteModalOpen(false))}
                     item={selectedGroup}
                     type="group"
                 />
@@ -1152,7 +3472,7 @@ const GroupsTable: React.FC<GroupsTableProps> = ({ groups, onAction, isReadOnly
     }));
 
     const actions = (group: string) => [
-        { title: 'Modify Members', onClick: () => onAction?.('modify', group) },
+        { title: 'Modify Group', onClick: () => onAction?.('modify', group) },
         { isSeparator: true as const },
         { title: 'Delete Group', onClick: () => onAction?.('delete', group) },
     ];
@@ -1214,11 +3534,7 @@ const CreateGroupModal: React.FC<CreateGroupModalProps> = ({ isOpen, onClose, on
 
         setLoading(true);
         setError(null);
-        const command = ['create', 'group', groupName.value];
-        if (description.value) command.push('--description', description.value);
-        if (users.value) command.push('--users', users.value);
-
-        smbZfsApi.run(command)
+        smbZfsApi.createGroup(groupName.value, { description: description.value, users: splitList(users.value) })
             .then(() => { onSave(); onClose(); })
             .catch(err => setError(err.message))
             .finally(() => setLoading(false));
@@ -1303,94 +3619,65 @@ interface ModifyGroupModalProps {
     allUsers: string[];
 }
 
+// smb-zfs cannot rename a group or change its description, so only the members are editable
 const ModifyGroupModal: React.FC<ModifyGroupModalProps> = ({ isOpen, onClose, onSave, group, groupData, allUsers }) => {
-    const addUsers = useValidation('', validateUserList);
-    const removeUsers = useValidation('', validateUserList);
+    const [members, setMembers] = useState<string[]>(groupData.members);
 
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    const isFormValid = () => {
-        return addUsers.isValid && removeUsers.isValid;
+    const commands = (): string[][] => {
+        const addUsers = members.filter(u => !groupData.members.includes(u));
+        const removeUsers = groupData.members.filter(u => !members.includes(u));
+        if (addUsers.length === 0 && removeUsers.length === 0) return [];
+        return [smbZfsCommands.modifyGroup(group, { addUsers, removeUsers })];
     };
 
-    const handleSave = () => {
-        addUsers.handleBlur();
-        removeUsers.handleBlur();
-
-        if (!isFormValid()) return;
+    const handleSave = async () => {
+        if (commands().length === 0) return;
 
         setLoading(true);
         setError(null);
-        const command = ['modify', 'group', group];
-        if (addUsers.value) command.push('--add-users', addUsers.value);
-        if (removeUsers.value) command.push('--remove-users', removeUsers.value);
-
-        smbZfsApi.run(command)
-            .then(() => { onSave(); onClose(); })
-            .catch(err => setError(err.message))
-            .finally(() => setLoading(false));
+        try {
+            for (const command of commands()) await smbZfsApi.run(command);
+            onSave();
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setLoading(false);
+        }
     };
 
     return (
         <Modal
-            variant={ModalVariant.medium}
+            variant={ModalVariant.large}
             title={`Modify Group ${group}`}
             isOpen={isOpen}
             onClose={onClose}
         >
             {error && <Alert variant="danger" title="Failed to modify group">{error}</Alert>}
             <Form>
-                <FormGroup label="Current Members" fieldId="current-members">
-                    <Content>
-                        <p>{groupData.members.join(', ') || 'None'}</p>
+                <FormGroup label="Description" fieldId="modify-group-desc">
+                    <Content id="modify-group-desc">
+                        <p>{groupData.description || '-'}</p>
                     </Content>
                 </FormGroup>
 
-                <FormGroup label="Add Users" fieldId="add-users">
-                    <UsersSelect
-                        id="add-users"
-                        value={addUsers.value}
-                        onChange={(v) => addUsers.handleChange(v)}
-                        options={allUsers}
-                        placeholder="Select users to add (type to filter…). Multiple accepted via comma."
-                        aria-label="add-users-select"
-                        allowEmpty
-                    />
-                    {addUsers.error && (
-                        <FormHelperText>
-                            <HelperText>
-                                <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
-                                    {addUsers.error}
-                                </HelperTextItem>
-                            </HelperText>
-                        </FormHelperText>
-                    )}
-                </FormGroup>
-
-                <FormGroup label="Remove Users" fieldId="remove-users">
-                    <UsersSelect
-                        id="remove-users"
-                        value={removeUsers.value}
-                        onChange={(v) => removeUsers.handleChange(v)}
+                <FormGroup label="Members" fieldId="modify-group-members">
+                    <DualListPicker
+                        id="modify-group-members"
                         options={allUsers}
-                        placeholder="Select users to remove (type to filter…). Multiple accepted via comma."
-                        aria-label="remove-users-select"
-                        allowEmpty
+                        value={members}
+                        onChange={setMembers}
+                        availableTitle="Users"
+                        chosenTitle="Members"
+                        isDisabled={loading}
                     />
-                    {removeUsers.error && (
-                        <FormHelperText>
-                            <HelperText>
-                                <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
-                                    {removeUsers.error}
-                                </HelperTextItem>
-                            </HelperText>
-                        </FormHelperText>
-                    )}
                 </FormGroup>
             </Form>
             <div className="pf-v5-c-modal-box__footer">
-                <Button key="save" variant="primary" onClick={handleSave} isDisabled={!!loading || !isFormValid()}>
+                <Button key="save" variant="primary" onClick={handleSave} isDisabled={!!loading || commands().length === 0}>
                     {loading ? <Spinner size="sm" /> : 'Save'}
                 </Button>
                 <Button key="cancel" variant="link" onClick={onClose}>Cancel</Button>
@@ -1399,34 +3686,170 @@ const ModifyGroupModal: React.FC<ModifyGroupModalProps> = ({ isOpen, onClose, on
     );
 };
 
+interface MembershipMatrixModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: () => void;
+    groups: Record<string, GroupData>;
+    users: string[];
+}
+
+// Users × groups checkboxes; saving runs only the calls needed for the cells that changed
+const MembershipMatrixModal: React.FC<MembershipMatrixModalProps> = ({ isOpen, onClose, onSave, groups, users }) => {
+    const initial = useMemo(() => Object.fromEntries(Object.entries(groups).map(([name, g]) => [name, g.members])), [groups]);
+    const [membership, setMembership] = useState<Record<string, string[]>>(initial);
+    // Membership on the server after the groups saved so far; the state is only refreshed when the modal closes
+    const [saved, setSaved] = useState<Record<string, string[]>>(initial);
+    const [changed, setChanged] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setMembership(initial);
+        setSaved(initial);
+        setChanged(false);
+    }, [initial]);
+
+    const commands = membershipCommands(saved, membership);
+    const groupNames = Object.keys(groups);
+
+    const toggle = (group: string, user: string, checked: boolean) =>
+        setMembership(m => ({ ...m, [group]: checked ? [...m[group], user] : m[group].filter(u => u !== user) }));
+
+    const handleClose = () => {
+        if (changed) onSave();
+        onClose();
+    };
+
+    const handleSave = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            for (const [group, members] of Object.entries(membership)) {
+                const [command] = membershipCommands({ [group]: saved[group] || [] }, { [group]: members });
+                if (!command) continue;
+                await smbZfsApi.run(command);
+                setSaved(s => ({ ...s, [group]: members }));
+                setChanged(true);
+            }
+            onSave();
+            onClose();
+        } catch (err) {
+            // Earlier groups may have been saved; the state is refreshed when the modal is closed
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Modal
+            variant={ModalVariant.large}
+            title="Group Membership"
+            isOpen={isOpen}
+            onClose={handleClose}
+        >
+            {error && <Alert variant="danger" title="Failed to update group membership">{error}</Alert>}
+            <div className="smbzfs-table-wrap">
+                <div className="pf-v5-c-table pf-m-compact" role="grid" aria-label="Membership Matrix">
+                    <div className="pf-v5-c-table__thead" role="rowgroup">
+                        <div className="pf-v5-c-table__tr" role="row">
+                            <div role="columnheader" className="pf-v5-c-table__th">User</div>
+                            {groupNames.map(group => (
+                                <div key={group} role="columnheader" className="pf-v5-c-table__th">{group}</div>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="pf-v5-c-table__tbody" role="rowgroup">
+                        {users.map(user => (
+                            <div key={user} className="pf-v5-c-table__tr" role="row">
+                                <div role="cell" className="pf-v5-c-table__td">{user}</div>
+                                {groupNames.map(group => (
+                                    <div key={group} role="cell" className="pf-v5-c-table__td">
+                                        <Checkbox
+                                            id={`matrix-${user}-${group}`}
+                                            aria-label={`${user} in ${group}`}
+                                            isChecked={membership[group]?.includes(user) ?? false}
+                                            isDisabled={loading}
+                                            onChange={(_event, checked) => toggle(group, user, checked)}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+            {commands.length > 0 && (
+                <Content style={{ marginTop: '1rem' }}>
+                    <p>Saving runs:</p>
+                    {commands.map((c, i) => <div key={i}><code>smb-zfs {c.join(' ')}</code></div>)}
+                </Content>
+            )}
+            <div className="pf-v5-c-modal-box__footer">
+                <Button key="save" variant="primary" onClick={handleSave} isDisabled={loading || commands.length === 0}>
+                    {loading ? <Spinner size="sm" /> : `Save ${commands.length} Change${commands.length === 1 ? '' : 's'}`}
+                </Button>
+                <Button key="cancel" variant="link" onClick={handleClose}>Cancel</Button>
+            </div>
+        </Modal>
+    );
+};
+
 // #region Shares - Updated with validation
 interface SharesTabProps {
     shares: Record<string, ShareData>;
     pools: string[];
     users: string[];
     groups: string[];
-    datasets: string[];
+    datasetMarkers: Record<string, string>;
     onRefresh: () => void;
 }
 
-const SharesTab: React.FC<SharesTabProps> = ({ shares, pools, users, groups, datasets, onRefresh }) => {
+const SharesTab: React.FC<SharesTabProps> = ({ shares, pools, users, groups, datasetMarkers, onRefresh }) => {
     const [isCreateModalOpen, setCreateModalOpen] = useState(false);
+    const [isImportModalOpen, setImportModalOpen] = useState(false);
     const [isModifyModalOpen, setModifyModalOpen] = useState(false);
     const [isDeleteModalOpen, setDeleteModalOpen] = useState(false);
+    const [isSnapshotsModalOpen, setSnapshotsModalOpen] = useState(false);
     const [selectedShare, setSelectedShare] = useState<string | null>(null);
+    const [shadowCopyShares, setShadowCopyShares] = useState<string[]>([]);
+
+    const refreshShadowCopy = useCallback(() => {
+        shadowCopyApi.listEnabled()
+                .then(setShadowCopyShares)
+                .catch(() => setShadowCopyShares([]));
+    }, []);
+
+    useEffect(() => {
+        refreshShadowCopy();
+    }, [refreshShadowCopy, shares]);
+
+    const hasPreviousVersions = (share: string) => shadowCopyShares.includes(share.toLowerCase());
 
     const handleAction = (action: string, share: string) => {
         setSelectedShare(share);
         if (action === 'modify') setModifyModalOpen(true);
         if (action === 'delete') setDeleteModalOpen(true);
+        if (action === 'snapshots') setSnapshotsModalOpen(true);
     };
 
     return (
         <PageSection>
             <div style={{ display: 'flex', justifyContent: 'flex-end', paddingBottom: '1rem' }}>
+                <Button variant="secondary" onClick={() => setImportModalOpen(true)} style={{ marginRight: '0.5rem' }}>Import Existing</Button>
                 <Button variant="primary" onClick={() => setCreateModalOpen(true)}>Create Share</Button>
             </div>
-            <SharesTable shares={shares} onAction={handleAction} />
+            <SharesTable shares={shares} onAction={handleAction} hasPreviousVersions={hasPreviousVersions} />
+
+            <ImportSharesModal
+                isOpen={isImportModalOpen}
+                onClose={() => setImportModalOpen(false)}
+                onSave={onRefresh}
+                shares={shares}
+                pools={pools}
+                datasetMarkers={datasetMarkers}
+            />
 
             <CreateShareModal
                 isOpen={isCreateModalOpen}
@@ -1435,16 +3858,19 @@ const SharesTab: React.FC<SharesTabProps> = ({ shares, pools, users, groups, dat
                 pools={pools}
                 users={users}
                 groups={groups}
-                datasets={datasets}
+                datasetMarkers={datasetMarkers}
             />
             {selectedShare && <>
                 <ModifyShareModal
+                    key={selectedShare}
                     isOpen={isModifyModalOpen}
                     onClose={() => setModifyModalOpen(false)}
                     onSave={onRefresh}
                     share={selectedShare}
                     shareData={shares[selectedShare]}
-                    pools={pools}
+                    users={users}
+                    groups={groups}
+                    previousVersions={hasPreviousVersions(selectedShare)}
                 />
                 <DeleteShareModal
                     isOpen={isDeleteModalOpen}
@@ -1452,6 +3878,12 @@ const SharesTab: React.FC<SharesTabProps> = ({ shares, pools, users, groups, dat
                     onSave={onRefresh}
                     share={selectedShare}
                 />
+                <SnapshotsModal
+                    isOpen={isSnapshotsModalOpen}
+                    onClose={() => setSnapshotsModalOpen(false)}
+                    dataset={shares[selectedShare].dataset.name}
+                    label={`share ${selectedShare}`}
+                />
             </>}
         </PageSection>
     );
@@ -1461,23 +3893,36 @@ interface SharesTableProps {
     shares: Record<string, ShareData>;
     onAction?: (action: string, share: string) => void;
     isReadOnly?: boolean;
+    hasPreviousVersions?: (share: string) => boolean;
 }
 
-const SharesTable: React.FC<SharesTableProps> = ({ shares, onAction, isReadOnly = false }) => {
-    const columns = ['Share Name', 'Comment', 'Dataset', 'Quota', 'Access', 'Created'];
+const SharesTable: React.FC<SharesTableProps> = ({ shares, onAction, isReadOnly = false, hasPreviousVersions }) => {
+    const [usageSort, setUsageSort] = useState<SortDirection>(null);
+    const usage = useDatasetUsage(Object.values(shares).map(s => s.dataset.name));
+
+    const columns = ['Share Name', 'Comment', 'Dataset', 'Quota', USAGE_COLUMN, 'Available', 'Referenced', 'Access'];
+    if (hasPreviousVersions) columns.push('Previous Versions');
+    columns.push('Created');
     if (!isReadOnly) columns.push('');
 
-    const rows = Object.entries(shares).map(([name, data]) => ({
-        name,
-        cells: [
+    const rows = sortByUsage(Object.entries(shares), ([, data]) => usage[data.dataset.name], usageSort).map(([name, data]) => {
+        const shareUsage = usage[data.dataset.name];
+        return {
             name,
-            data.smb_config.comment || '-',
-            data.dataset.name,
-            data.dataset.quota || 'None',
-            `${data.smb_config.read_only ? 'RO' : 'RW'}, ${data.smb_config.browseable ? 'Browseable' : 'Hidden'}`,
-            new Date(data.created).toLocaleString()
-        ]
-    }));
+            cells: [
+                name,
+                data.smb_config.comment || '-',
+                data.dataset.name,
+                data.dataset.quota || 'None',
+                <DatasetUsageCell key="usage" usage={shareUsage} />,
+                shareUsage ? formatBytes(shareUsage.available) : '-',
+                shareUsage ? formatBytes(shareUsage.referenced) : '-',
+                `${data.smb_config.read_only ? 'RO' : 'RW'}, ${data.smb_config.browseable ? 'Browseable' : 'Hidden'}`,
+                ...(hasPreviousVersions ? [hasPreviousVersions(name) ? 'Enabled' : 'Disabled'] : []),
+                new Date(data.created).toLocaleString()
+            ]
+        };
+    });
 
     const actions = (share: string) => [
         { title: 'Modify Share', onClick: () => onAction?.('modify', share) },
@@ -1490,7 +3935,9 @@ const SharesTable: React.FC<SharesTableProps> = ({ shares, onAction, isReadOnly
             <div className="pf-v5-c-table__thead" role="rowgroup">
                 <div className="pf-v5-c-table__tr" role="row">
                     {columns.map((col, i) => (
-                        <div key={i} role="columnheader" className="pf-v5-c-table__th">{col}</div>
+                        <div key={i} role="columnheader" className="pf-v5-c-table__th">
+                            {col === USAGE_COLUMN ? <SortableHeader label={col} direction={usageSort} onSort={setUsageSort} /> : col}
+                        </div>
                     ))}
                     {!isReadOnly && <div className="pf-v5-c-table__th" />}
                 </div>
@@ -1505,6 +3952,7 @@ const SharesTable: React.FC<SharesTableProps> = ({ shares, onAction, isReadOnly
                             <div role="cell" className="pf-v5-c-table__td">
                                 <div className="pf-v5-c-dropdown">
                                     <button className="pf-v5-c-button pf-m-primary" type="button" onClick={() => onAction?.('modify', row.name)}>Modify</button>
+                                    <button className="pf-v5-c-button pf-m-secondary" type="button" onClick={() => onAction?.('snapshots', row.name)}>Snapshots</button>
                                     <button className="pf-v5-c-button pf-m-danger" type="button" onClick={() => onAction?.('delete', row.name)}>Delete</button>
                                 </div>
                             </div>
@@ -1523,10 +3971,10 @@ interface CreateShareModalProps {
     pools: string[];
     users: string[];
     groups: string[];
-    datasets: string[];
+    datasetMarkers: Record<string, string>;
 }
 
-const CreateShareModal: React.FC<CreateShareModalProps> = ({ isOpen, onClose, onSave, pools, users, groups, datasets }) => {
+const CreateShareModal: React.FC<CreateShareModalProps> = ({ isOpen, onClose, onSave, pools, users, groups, datasetMarkers }) => {
     const shareName = useValidation('', (value) => validateName(value, 'share'));
     const dataset = useValidation('', validateDatasetPath);
     const comment = useValidation('', () => ({ isValid: true }));
@@ -1539,6 +3987,7 @@ const CreateShareModal: React.FC<CreateShareModalProps> = ({ isOpen, onClose, on
     const [pool, setPool] = useState(pools[0] || '');
     const [readonly, setReadonly] = useState(false);
     const [noBrowse, setNoBrowse] = useState(false);
+    const [shadowCopy, setShadowCopy] = useState(false);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -1572,21 +4021,25 @@ const CreateShareModal: React.FC<CreateShareModalProps> = ({ isOpen, onClose, on
 
         setLoading(true);
         setError(null);
-        const command = ['create', 'share', shareName.value, '--dataset', dataset.value];
-        if (pool) command.push('--pool', pool);
-        if (comment.value) command.push('--comment', comment.value);
-        if (owner.value) command.push('--owner', owner.value);
-        if (group.value) command.push('--group', group.value);
-        if (permissions.value) command.push('--perms', permissions.value);
-        if (validUsers.value) command.push('--valid-users', validUsers.value);
-        if (readonly) command.push('--readonly');
-        if (noBrowse) command.push('--no-browse');
-        if (quota.value) command.push('--quota', quota.value);
-
-        smbZfsApi.run(command)
-            .then(() => { onSave(); onClose(); })
-            .catch(err => setError(err.message))
-            .finally(() => setLoading(false));
+        smbZfsApi.createShare(shareName.value, {
+            dataset: dataset.value,
+            ...(pool ? { pool } : {}),
+            ...(comment.value ? { comment: comment.value } : {}),
+            ...(owner.value ? { owner: owner.value } : {}),
+            ...(group.value ? { group: group.value } : {}),
+            ...(permissions.value ? { permissions: permissions.value } : {}),
+            ...(validUsers.value ? { validUsers: validUsers.value } : {}),
+            ...(quota.value ? { quota: quota.value } : {}),
+            readOnly: readonly,
+            browseable: !noBrowse,
+        })
+                .then(() => shadowCopy ? shadowCopyApi.setEnabled(shareName.value, true) : undefined)
+                .then(() => {
+                    onSave();
+                    onClose();
+                })
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
     };
 
     return (
@@ -1622,16 +4075,27 @@ const CreateShareModal: React.FC<CreateShareModalProps> = ({ isOpen, onClose, on
                         </FormGroup>
                     </GridItem>
                     <GridItem span={6}>
+                        <FormGroup label="ZFS Pool" fieldId="share-pool">
+                            <PoolSelect
+                              id="share-pool"
+                              value={pool}
+                              onChange={setPool}
+                              placeholder="Select a pool"
+                              allowEmpty
+                            />
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={12}>
                         <FormGroup label="ZFS Dataset Path" isRequired fieldId="share-dataset">
-                            <DatasetSelect
+                            <DatasetBrowser
                                 id="share-dataset"
+                                pool={pool}
                                 value={dataset.value}
                                 onChange={(v) => dataset.handleChange(v)}
-                                datasets={datasets}
-                                placeholder="Select dataset (type to filter)…"
-                                aria-label="dataset-select"
-                                allowEmpty
-                              />
+                                markers={datasetMarkers}
+                                allowCreate
+                                aria-label="dataset-browser"
+                            />
                             {dataset.error && (
                                 <FormHelperText>
                                     <HelperText>
@@ -1643,17 +4107,6 @@ const CreateShareModal: React.FC<CreateShareModalProps> = ({ isOpen, onClose, on
                             )}
                         </FormGroup>
                     </GridItem>
-                    <GridItem span={6}>
-                        <FormGroup label="ZFS Pool" fieldId="share-pool">
-                            <PoolSelect
-                              id="share-pool"
-                              value={pool}
-                              onChange={setPool}
-                              placeholder="Select a pool"
-                              allowEmpty
-                            />
-                        </FormGroup>
-                    </GridItem>
                     <GridItem span={6}>
                         <FormGroup label="Comment" fieldId="share-comment">
                             <TextInput
@@ -1740,201 +4193,2876 @@ const CreateShareModal: React.FC<CreateShareModalProps> = ({ isOpen, onClose, on
                               aria-label="valid-users-select"
                               allowEmpty
                             />
-                            {validUsers.error && (
+                            {validUsers.error && (
+                                <FormHelperText>
+                                    <HelperText>
+                                        <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
+                                            {validUsers.error}
+                                        </HelperTextItem>
+                                    </HelperText>
+                                </FormHelperText>
+                            )}
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={6}>
+                        <FormGroup label="Quota" fieldId="share-quota">
+                            <TextInput
+                                type="text"
+                                id="share-quota"
+                                placeholder="e.g., 100G"
+                                value={quota.value}
+                                onChange={(_event, value) => quota.handleChange(value)}
+                                onBlur={() => quota.handleBlur()}
+                                validated={quota.error ? 'error' : 'default'}
+                            />
+                            {quota.error && (
+                                <FormHelperText>
+                                    <HelperText>
+                                        <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
+                                            {quota.error}
+                                        </HelperTextItem>
+                                    </HelperText>
+                                </FormHelperText>
+                            )}
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={6}>
+                        <FormGroup fieldId="share-options">
+                            <Checkbox
+                                label="Make share read-only"
+                                id="share-readonly"
+                                isChecked={readonly}
+                                onChange={(_event, checked) => setReadonly(checked)}
+                            />
+                            <Checkbox
+                                label="Hide share from network browse"
+                                id="share-no-browse"
+                                isChecked={noBrowse}
+                                onChange={(_event, checked) => setNoBrowse(checked)}
+                            />
+                            <Checkbox
+                                label="Expose ZFS snapshots as Windows Previous Versions"
+                                id="share-previous-versions"
+                                description="Lists the automatic snapshots of the dataset in the Windows 'Previous Versions' tab."
+                                isChecked={shadowCopy}
+                                onChange={(_event, checked) => setShadowCopy(checked)}
+                            />
+                        </FormGroup>
+                    </GridItem>
+                </Grid>
+            </Form>
+            <div className="pf-v5-c-modal-box__footer">
+                <Button
+                    key="save"
+                    variant="primary"
+                    onClick={handleSave}
+                    isDisabled={!!loading || !isFormValid()}
+                >
+                    {loading ? <Spinner size="sm" /> : 'Save'}
+                </Button>
+                <Button key="cancel" variant="link" onClick={onClose}>Cancel</Button>
+            </div>
+        </Modal>
+    );
+};
+
+interface ShadowCopyNamingCheckProps {
+    dataset: string;
+}
+
+// Warns when existing snapshots would not show up as Previous Versions
+const ShadowCopyNamingCheck: React.FC<ShadowCopyNamingCheckProps> = ({ dataset }) => {
+    const [snapshots, setSnapshots] = useState<SnapshotData[] | null>(null);
+
+    useEffect(() => {
+        zfsApi.listSnapshots(dataset)
+                .then(setSnapshots)
+                .catch(() => setSnapshots(null));
+    }, [dataset]);
+
+    if (!snapshots) return null;
+
+    const mismatched = snapshots.filter(s => !SHADOW_COPY_SNAPSHOT_RE.test(s.snapshot));
+    if (snapshots.length === 0) {
+        return (
+            <Alert variant="info" isInline title="No snapshots yet">
+                Previous Versions only lists automatic snapshots. Configure a snapshot schedule for {dataset} or its pool.
+            </Alert>
+        );
+    }
+    if (mismatched.length === 0) return null;
+    return (
+        <Alert variant="warning" isInline title="Snapshot naming does not match the Previous Versions format">
+            {mismatched.length} of {snapshots.length} snapshots on {dataset} (e.g. {mismatched[0].snapshot}) do not follow
+            the <code>{AUTOSNAP_PREFIX}&lt;label&gt;{AUTOSNAP_TIME_FORMAT}</code> naming and will not be visible to Windows clients.
+        </Alert>
+    );
+};
+
+interface ModifyShareModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: () => void;
+    share: string;
+    shareData: ShareData;
+    users: string[];
+    groups: string[];
+    previousVersions: boolean;
+}
+
+const ModifyShareModal: React.FC<ModifyShareModalProps> = ({ isOpen, onClose, onSave, share, shareData, users, groups, previousVersions }) => {
+    const initial = {
+        comment: shareData.smb_config.comment || '',
+        quota: shareData.dataset.quota || '',
+        owner: shareData.system.owner || '',
+        group: shareData.system.group || '',
+        permissions: shareData.system.permissions || '',
+        validUsers: shareData.smb_config.valid_users || '',
+        readonly: Boolean(shareData.smb_config.read_only),
+        noBrowse: !shareData.smb_config.browseable,
+    };
+    const comment = useValidation(initial.comment, () => ({ isValid: true }));
+    const quota = useValidation(initial.quota, validateQuota);
+    const owner = useValidation(initial.owner, (value) => validateName(value, 'owner'));
+    const group = useValidation(initial.group, (value) => validateName(value, 'group'));
+    const permissions = useValidation(initial.permissions, validatePermissions);
+    const validUsers = useValidation(initial.validUsers, validateUserList);
+
+    const [readonly, setReadonly] = useState(initial.readonly);
+    const [noBrowse, setNoBrowse] = useState(initial.noBrowse);
+    const [shadowCopy, setShadowCopy] = useState(previousVersions);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Only values that differ from the current share configuration are sent
+    const changes: ShareOptions = {
+        ...(comment.value !== initial.comment ? { comment: comment.value } : {}),
+        ...(quota.value !== initial.quota ? { quota: quota.value || 'none' } : {}),
+        ...(owner.value !== initial.owner ? { owner: owner.value } : {}),
+        ...(group.value !== initial.group ? { group: group.value } : {}),
+        ...(permissions.value !== initial.permissions ? { permissions: permissions.value } : {}),
+        ...(validUsers.value !== initial.validUsers ? { validUsers: validUsers.value } : {}),
+        ...(readonly !== initial.readonly ? { readOnly: readonly } : {}),
+        ...(noBrowse !== initial.noBrowse ? { browseable: !noBrowse } : {}),
+    };
+    const hasChanges = Object.keys(changes).length > 0;
+
+    const isFormValid = () => {
+        return comment.isValid &&
+               quota.isValid &&
+               owner.isValid &&
+               group.isValid &&
+               permissions.isValid &&
+               validUsers.isValid &&
+               owner.value &&
+               group.value;
+    };
+
+    const handleSave = () => {
+        quota.handleBlur();
+        owner.handleBlur();
+        group.handleBlur();
+        permissions.handleBlur();
+        validUsers.handleBlur();
+
+        if (!isFormValid() || (!hasChanges && shadowCopy === previousVersions)) return;
+
+        setLoading(true);
+        setError(null);
+        (hasChanges ? smbZfsApi.modifyShare(share, changes) : Promise.resolve(null))
+                // smb-zfs may rewrite the share section, so re-apply the Previous Versions block when enabled
+                .then(() => (shadowCopy || previousVersions) ? shadowCopyApi.setEnabled(share, shadowCopy) : undefined)
+                .then(() => {
+                    onSave();
+                    onClose();
+                })
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    };
+
+    return (
+        <Modal
+            variant={ModalVariant.large}
+            title={`Modify Share ${share}`}
+            isOpen={isOpen}
+            onClose={onClose}
+        >
+            {error && <Alert variant="danger" title="Failed to modify share">{error}</Alert>}
+            <Form>
+                <Grid hasGutter>
+                    <GridItem span={6}>
+                        <FormGroup label="ZFS Dataset" fieldId="mod-share-dataset">
+                            <Content>
+                                <p>{shareData.dataset.name}</p>
+                            </Content>
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={6}>
+                        <FormGroup label="Comment" fieldId="mod-share-comment">
+                            <TextInput
+                                type="text"
+                                id="mod-share-comment"
+                                value={comment.value}
+                                onChange={(_event, value) => comment.handleChange(value)}
+                            />
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={6}>
+                        <FormGroup label="Owner (user)" isRequired fieldId="mod-share-owner">
+                            <UsersSelect
+                              id="mod-share-owner"
+                              value={owner.value}
+                              onChange={(v) => owner.handleChange(v)}
+                              options={[...new Set([initial.owner, ...users].filter(Boolean))]}
+                              placeholder="Select owner user"
+                              aria-label="mod-owner-user-select"
+                              allowEmpty
+                            />
+                            {owner.error && (
+                                <FormHelperText>
+                                    <HelperText>
+                                        <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
+                                            {owner.error}
+                                        </HelperTextItem>
+                                    </HelperText>
+                                </FormHelperText>
+                            )}
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={6}>
+                        <FormGroup label="Owner (group)" isRequired fieldId="mod-share-group">
+                            <GroupsSelect
+                              id="mod-share-group"
+                              value={group.value}
+                              onChange={(v) => group.handleChange(v)}
+                              options={[...new Set([initial.group, ...groups].filter(Boolean))]}
+                              placeholder="Select owner group"
+                              aria-label="mod-owner-group-select"
+                              allowEmpty
+                            />
+                            {group.error && (
+                                <FormHelperText>
+                                    <HelperText>
+                                        <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
+                                            {group.error}
+                                        </HelperTextItem>
+                                    </HelperText>
+                                </FormHelperText>
+                            )}
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={6}>
+                        <FormGroup label="Permissions" fieldId="mod-share-perms">
+                            <TextInput
+                                type="text"
+                                id="mod-share-perms"
+                                value={permissions.value}
+                                onChange={(_event, value) => permissions.handleChange(value)}
+                                onBlur={() => permissions.handleBlur()}
+                                validated={permissions.error ? 'error' : 'default'}
+                            />
+                            {permissions.error && (
+                                <FormHelperText>
+                                    <HelperText>
+                                        <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
+                                            {permissions.error}
+                                        </HelperTextItem>
+                                    </HelperText>
+                                </FormHelperText>
+                            )}
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={6}>
+                        <FormGroup label="Valid Users/Groups" fieldId="mod-share-valid-users">
+                            <TextInput
+                                type="text"
+                                id="mod-share-valid-users"
+                                placeholder="comma-separated, prefix '@' for groups"
+                                value={validUsers.value}
+                                onChange={(_event, value) => validUsers.handleChange(value)}
+                                onBlur={() => validUsers.handleBlur()}
+                                validated={validUsers.error ? 'error' : 'default'}
+                            />
+                            <UsersSelect
+                              id="mod-share-valid-users-add"
+                              value=""
+                              onChange={(v) => {
+                                  if (!v) return;
+                                  const current = validUsers.value.split(',').map(u => u.trim())
+                                          .filter(Boolean);
+                                  if (!current.includes(v)) validUsers.handleChange([...current, v].join(','));
+                              }}
+                              options={[...users, ...groups.map(g => `@${g}`)]}
+                              placeholder="Add a user or @group…"
+                              aria-label="mod-valid-users-select"
+                              allowEmpty
+                            />
+                            {validUsers.error && (
+                                <FormHelperText>
+                                    <HelperText>
+                                        <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
+                                            {validUsers.error}
+                                        </HelperTextItem>
+                                    </HelperText>
+                                </FormHelperText>
+                            )}
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={6}>
+                        <FormGroup label="Quota" fieldId="mod-share-quota">
+                            <TextInput
+                                type="text"
+                                id="mod-share-quota"
+                                value={quota.value}
+                                onChange={(_event, value) => quota.handleChange(value)}
+                                onBlur={() => quota.handleBlur()}
+                                validated={quota.error ? 'error' : 'default'}
+                            />
+                            {quota.error && (
+                                <FormHelperText>
+                                    <HelperText>
+                                        <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
+                                            {quota.error}
+                                        </HelperTextItem>
+                                    </HelperText>
+                                </FormHelperText>
+                            )}
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={6}>
+                        <FormGroup fieldId="mod-share-options">
+                            <Checkbox
+                                label="Make share read-only"
+                                id="mod-share-readonly"
+                                isChecked={readonly}
+                                onChange={(_event, checked) => setReadonly(checked)}
+                            />
+                            <Checkbox
+                                label="Hide share from network browse"
+                                id="mod-share-no-browse"
+                                isChecked={noBrowse}
+                                onChange={(_event, checked) => setNoBrowse(checked)}
+                            />
+                            <Checkbox
+                                label="Expose ZFS snapshots as Windows Previous Versions"
+                                id="mod-share-previous-versions"
+                                isChecked={shadowCopy}
+                                onChange={(_event, checked) => setShadowCopy(checked)}
+                            />
+                        </FormGroup>
+                    </GridItem>
+                    {shadowCopy && (
+                        <GridItem span={12}>
+                            <ShadowCopyNamingCheck dataset={shareData.dataset.name} />
+                        </GridItem>
+                    )}
+                </Grid>
+            </Form>
+            <div className="pf-v5-c-modal-box__footer">
+                <Button
+                    key="save"
+                    variant="primary"
+                    onClick={handleSave}
+                    isDisabled={!!loading || !isFormValid() || (!hasChanges && shadowCopy === previousVersions)}
+                >
+                    {loading ? <Spinner size="sm" /> : 'Save'}
+                </Button>
+                <Button key="cancel" variant="link" onClick={onClose}>Cancel</Button>
+            </div>
+        </Modal>
+    );
+};
+
+interface DeleteShareModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: () => void;
+    share: string;
+}
+
+const DeleteShareModal: React.FC<DeleteShareModalProps> = ({ isOpen, onClose, onSave, share }) => {
+    const [deleteData, setDeleteData] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleConfirm = () => {
+        setLoading(true);
+        setError(null);
+        smbZfsApi.deleteShare(share, deleteData)
+            .then(() => { onSave(); onClose(); })
+            .catch(err => setError(err.message))
+            .finally(() => setLoading(false));
+    };
+
+    return (
+        <Modal
+            variant={ModalVariant.small}
+            title={`Delete Share ${share}`}
+            isOpen={isOpen}
+            onClose={onClose}
+        >
+            {error && <Alert variant="danger" title="Failed to delete share">{error}</Alert>}
+            <p>Are you sure you want to delete share <strong>{share}</strong>?</p>
+            <Checkbox
+                label="Permanently delete the share's ZFS dataset."
+                id={`delete-data-share-${share}`}
+                isChecked={deleteData}
+                onChange={(_event, checked) => setDeleteData(checked)}
+            />
+            <div className="pf-v5-c-modal-box__footer">
+                <Button key="confirm" variant="danger" onClick={handleConfirm} isDisabled={!!loading}>
+                    {loading ? <Spinner size="sm" /> : 'Delete'}
+                </Button>
+                <Button key="cancel" variant="link" onClick={onClose}>Cancel</Button>
+            </div>
+        </Modal>
+    );
+};
+
+interface ImportSharesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: () => void;
+    shares: Record<string, ShareData>;
+    pools: string[];
+    datasetMarkers: Record<string, string>;
+}
+
+const ImportSharesModal: React.FC<ImportSharesModalProps> = ({ isOpen, onClose, onSave, shares, pools, datasetMarkers }) => {
+    const [candidates, setCandidates] = useState<ImportCandidate[] | null>(null);
+    const [selected, setSelected] = useState<Record<string, boolean>>({});
+    const [names, setNames] = useState<Record<string, string>>({});
+    const [results, setResults] = useState<Record<string, string | null>>({});
+    const [scanning, setScanning] = useState(false);
+    const [importing, setImporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const candidateKey = (c: ImportCandidate) => `${c.source}:${c.path}`;
+
+    const scan = useCallback(() => {
+        setScanning(true);
+        setError(null);
+        setResults({});
+        importApi.scan(Object.keys(shares), pools, Object.keys(datasetMarkers))
+                .then(found => {
+                    setCandidates(found);
+                    setSelected({});
+                    setNames(Object.fromEntries(found.map(c => [`${c.source}:${c.path}`, c.name])));
+                })
+                .catch(err => setError(err.message))
+                .finally(() => setScanning(false));
+    }, [shares, pools, datasetMarkers]);
+
+    useEffect(() => {
+        if (isOpen) scan();
+    }, [isOpen, scan]);
+
+    const nameError = (c: ImportCandidate) => {
+        const name = names[candidateKey(c)] || '';
+        if (Object.keys(shares).some(s => s.toLowerCase() === name.toLowerCase())) return `Share '${name}' already exists.`;
+        return validateName(name, 'share').error;
+    };
+
+    const chosen = (candidates || []).filter(c => selected[candidateKey(c)] && results[candidateKey(c)] !== null);
+
+    // Adopt one at a time so smb.conf rewrites never overlap; a failure does not stop the remaining items
+    const handleImport = async () => {
+        if (chosen.some(nameError)) return;
+        setImporting(true);
+        let imported = 0;
+        for (const candidate of chosen) {
+            const key = candidateKey(candidate);
+            try {
+                await importApi.adopt(candidate, names[key]);
+                setResults(r => ({ ...r, [key]: null }));
+                imported++;
+            } catch (err) {
+                setResults(r => ({ ...r, [key]: err instanceof Error ? err.message : String(err) }));
+            }
+        }
+        setImporting(false);
+        if (imported > 0) onSave();
+    };
+
+    const describeOptions = (share: ShareData) => [
+        share.smb_config.read_only ? 'RO' : 'RW',
+        share.smb_config.browseable ? 'Browseable' : 'Hidden',
+        share.smb_config.valid_users && `valid users: ${share.smb_config.valid_users}`,
+        share.smb_config.comment && `"${share.smb_config.comment}"`,
+    ].filter(Boolean)
+            .join(', ');
+
+    return (
+        <Modal
+            variant={ModalVariant.large}
+            title="Import Existing Shares"
+            isOpen={isOpen}
+            onClose={onClose}
+        >
+            {error && <Alert variant="danger" title="Failed to scan for shares">{error}</Alert>}
+            <Content>
+                <p>
+                    Shares from <code>testparm -s</code> and datasets in the configured pools that smb-zfs does not manage yet.
+                    Selected items are registered with <code>create share</code> using their current owner, group, permissions
+                    and options, so no data is changed. Hand-written share sections are removed from {SMB_CONF} first
+                    (a copy is kept in {SMB_CONF_IMPORT_BACKUP}).
+                </p>
+            </Content>
+            {scanning && <Spinner />}
+            {!scanning && candidates?.length === 0 && (
+                <EmptyState>
+                    <Title headingLevel="h4" size="md">Nothing to import</Title>
+                    <EmptyStateBody>Every share and dataset in the configured pools is already managed.</EmptyStateBody>
+                </EmptyState>
+            )}
+            {!scanning && candidates && candidates.length > 0 && (
+                <div className="smbzfs-table-wrap">
+                    <div className="pf-v5-c-table pf-m-compact" role="grid" aria-label="Import Candidates">
+                        <div className="pf-v5-c-table__thead" role="rowgroup">
+                            <div className="pf-v5-c-table__tr" role="row">
+                                {['', 'Share Name', 'Source', 'Dataset', 'Owner', 'Permissions', 'Quota', 'Options', 'Status'].map((col, i) => (
+                                    <div key={i} role="columnheader" className="pf-v5-c-table__th">{col}</div>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="pf-v5-c-table__tbody" role="rowgroup">
+                            {candidates.map(c => {
+                                const key = candidateKey(c);
+                                const result = results[key];
+                                const invalid = selected[key] ? nameError(c) : undefined;
+                                return (
+                                    <div key={key} className="pf-v5-c-table__tr" role="row">
+                                        <div role="cell" className="pf-v5-c-table__td">
+                                            <Checkbox
+                                                id={`import-${key}`}
+                                                aria-label={`Import ${c.name}`}
+                                                isChecked={!!selected[key]}
+                                                isDisabled={c.problems.length > 0 || result === null || importing}
+                                                onChange={(_event, checked) => setSelected(s => ({ ...s, [key]: checked }))}
+                                            />
+                                        </div>
+                                        <div role="cell" className="pf-v5-c-table__td">
+                                            <TextInput
+                                                type="text"
+                                                id={`import-name-${key}`}
+                                                aria-label={`Share name for ${c.path}`}
+                                                value={names[key] || ''}
+                                                onChange={(_event, value) => setNames(n => ({ ...n, [key]: value }))}
+                                                validated={invalid ? 'error' : 'default'}
+                                                isDisabled={c.problems.length > 0 || result === null || importing}
+                                            />
+                                            {invalid && <HelperText><HelperTextItem variant="error">{invalid}</HelperTextItem></HelperText>}
+                                        </div>
+                                        <div role="cell" className="pf-v5-c-table__td">{c.source}</div>
+                                        <div role="cell" className="pf-v5-c-table__td">{c.share.dataset.name || c.path}</div>
+                                        <div role="cell" className="pf-v5-c-table__td">
+                                            {c.share.system.owner ? `${c.share.system.owner}:${c.share.system.group}` : '-'}
+                                        </div>
+                                        <div role="cell" className="pf-v5-c-table__td">{c.share.system.permissions || '-'}</div>
+                                        <div role="cell" className="pf-v5-c-table__td">{c.share.dataset.quota || 'None'}</div>
+                                        <div role="cell" className="pf-v5-c-table__td">{describeOptions(c.share)}</div>
+                                        <div role="cell" className="pf-v5-c-table__td">
+                                            {c.problems.map((p, i) => <HelperText key={i}><HelperTextItem variant="warning">{p}</HelperTextItem></HelperText>)}
+                                            {result === null && <Label isCompact color="green">Imported</Label>}
+                                            {result && <HelperText><HelperTextItem variant="error">{result}</HelperTextItem></HelperText>}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                </div>
+            )}
+            <div className="pf-v5-c-modal-box__footer">
+                <Button key="confirm" variant="primary" onClick={handleImport} isDisabled={importing || chosen.length === 0}>
+                    {importing ? <Spinner size="sm" /> : `Import ${chosen.length} Selected`}
+                </Button>
+                <Button key="rescan" variant="secondary" onClick={scan} isDisabled={importing || scanning}>Rescan</Button>
+                <Button key="cancel" variant="link" onClick={onClose}>Close</Button>
+            </div>
+        </Modal>
+    );
+};
+
+// #region Snapshots
+interface SnapshotsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    dataset: string;
+    label: string;
+}
+
+type SnapshotAction = 'rename' | 'hold' | 'release' | 'destroy' | 'rollback';
+
+const defaultSnapshotName = () => {
+    const d = new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `manual-${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+};
+
+const SnapshotsModal: React.FC<SnapshotsModalProps> = ({ isOpen, onClose, dataset, label }) => {
+    const [snapshots, setSnapshots] = useState<SnapshotData[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [creating, setCreating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [action, setAction] = useState<{ type: SnapshotAction; snapshot: SnapshotData } | null>(null);
+    const [schedule, setSchedule] = useState<SnapshotSchedule | undefined>(undefined);
+    const [isScheduleModalOpen, setScheduleModalOpen] = useState(false);
+    const newName = useValidation(defaultSnapshotName(), validateSnapshotName);
+
+    const refresh = useCallback(() => {
+        setLoading(true);
+        zfsApi.listSnapshots(dataset)
+                .then(list => {
+                    setSnapshots(list);
+                    setError(null);
+                })
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    }, [dataset]);
+
+    const refreshSchedule = useCallback(() => {
+        autosnapApi.loadSchedules()
+                .then(schedules => setSchedule(schedules.find(s => s.dataset === dataset)))
+                .catch(() => setSchedule(undefined));
+    }, [dataset]);
+
+    useEffect(() => {
+        if (isOpen) {
+            refresh();
+            refreshSchedule();
+        }
+    }, [isOpen, refresh, refreshSchedule]);
+
+    const handleCreate = () => {
+        newName.handleBlur();
+        if (!newName.isValid || !newName.value) return;
+
+        setCreating(true);
+        setError(null);
+        zfsApi.createSnapshot(dataset, newName.value)
+                .then(() => {
+                    newName.handleChange(defaultSnapshotName());
+                    refresh();
+                })
+                .catch(err => setError(err.message))
+                .finally(() => setCreating(false));
+    };
+
+    const onActionDone = () => {
+        setAction(null);
+        refresh();
+    };
+
+    const actionIndex = action ? snapshots.findIndex(s => s.name === action.snapshot.name) : -1;
+
+    return (
+        <Modal
+            variant={ModalVariant.large}
+            title={`Snapshots of ${label}`}
+            isOpen={isOpen}
+            onClose={onClose}
+        >
+            {error && <Alert variant="danger" title="Snapshot operation failed">{error}</Alert>}
+            <Content>
+                <p>Dataset: <strong>{dataset}</strong></p>
+                <p>
+                    Automatic snapshots: {describeRetention(schedule)}{' '}
+                    <Button variant="link" isInline onClick={() => setScheduleModalOpen(true)}>Configure</Button>
+                </p>
+            </Content>
+            <Form isHorizontal>
+                <FormGroup label="New Snapshot" fieldId="snapshot-new-name">
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                        <TextInput
+                            type="text"
+                            id="snapshot-new-name"
+                            value={newName.value}
+                            onChange={(_event, value) => newName.handleChange(value)}
+                            onBlur={() => newName.handleBlur()}
+                            validated={newName.error ? 'error' : 'default'}
+                        />
+                        <Button variant="primary" onClick={handleCreate} isDisabled={creating || !newName.isValid || !newName.value}>
+                            {creating ? <Spinner size="sm" /> : 'Create'}
+                        </Button>
+                    </div>
+                    {newName.error && (
+                        <FormHelperText>
+                            <HelperText>
+                                <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
+                                    {newName.error}
+                                </HelperTextItem>
+                            </HelperText>
+                        </FormHelperText>
+                    )}
+                </FormGroup>
+            </Form>
+            {loading
+                ? <Spinner />
+                : <SnapshotsTable snapshots={snapshots} onAction={(type, snapshot) => setAction({ type, snapshot })} />}
+            <div className="pf-v5-c-modal-box__footer">
+                <Button key="refresh" variant="secondary" onClick={refresh} isDisabled={loading}>Refresh</Button>
+                <Button key="close" variant="link" onClick={onClose}>Close</Button>
+            </div>
+
+            <SnapshotScheduleModal
+                isOpen={isScheduleModalOpen}
+                onClose={() => setScheduleModalOpen(false)}
+                onSave={refreshSchedule}
+                dataset={dataset}
+                label={label}
+            />
+            {action?.type === 'rename' && (
+                <RenameSnapshotModal snapshot={action.snapshot} onClose={() => setAction(null)} onSave={onActionDone} />
+            )}
+            {(action?.type === 'hold' || action?.type === 'release') && (
+                <HoldSnapshotModal
+                    snapshot={action.snapshot}
+                    mode={action.type}
+                    onClose={() => setAction(null)}
+                    onSave={onActionDone}
+                />
+            )}
+            {action?.type === 'destroy' && (
+                <DestroySnapshotModal snapshot={action.snapshot} onClose={() => setAction(null)} onSave={onActionDone} />
+            )}
+            {action?.type === 'rollback' && (
+                <RollbackSnapshotModal
+                    snapshot={action.snapshot}
+                    newer={snapshots.slice(actionIndex + 1)}
+                    onClose={() => setAction(null)}
+                    onSave={onActionDone}
+                />
+            )}
+        </Modal>
+    );
+};
+
+interface SnapshotsTableProps {
+    snapshots: SnapshotData[];
+    onAction?: (action: SnapshotAction, snapshot: SnapshotData) => void;
+    onBrowse?: (snapshot: SnapshotData) => void;
+    isReadOnly?: boolean;
+}
+
+const SnapshotsTable: React.FC<SnapshotsTableProps> = ({ snapshots, onAction, onBrowse, isReadOnly = false }) => {
+    const columns = ['Snapshot', 'Created', 'Used', 'Referenced', 'Holds'];
+
+    if (snapshots.length === 0) {
+        return (
+            <EmptyState>
+                <Title headingLevel="h4" size="md">No snapshots</Title>
+                <EmptyStateBody>This dataset has no snapshots yet.</EmptyStateBody>
+            </EmptyState>
+        );
+    }
+
+    return (
+        <div className="pf-v5-c-table pf-m-grid-md" role="grid" aria-label="Snapshots Table">
+            <div className="pf-v5-c-table__thead" role="rowgroup">
+                <div className="pf-v5-c-table__tr" role="row">
+                    {columns.map((col, i) => (
+                        <div key={i} role="columnheader" className="pf-v5-c-table__th">{col}</div>
+                    ))}
+                    {(!isReadOnly || onBrowse) && <div className="pf-v5-c-table__th" />}
+                </div>
+            </div>
+            <div className="pf-v5-c-table__tbody" role="rowgroup">
+                {snapshots.map(snap => (
+                    <div key={snap.name} className="pf-v5-c-table__tr" role="row">
+                        <div role="cell" className="pf-v5-c-table__td">{snap.snapshot}</div>
+                        <div role="cell" className="pf-v5-c-table__td">{new Date(snap.creation * 1000).toLocaleString()}</div>
+                        <div role="cell" className="pf-v5-c-table__td">{formatBytes(snap.used)}</div>
+                        <div role="cell" className="pf-v5-c-table__td">{formatBytes(snap.referenced)}</div>
+                        <div role="cell" className="pf-v5-c-table__td">{snap.userrefs || '-'}</div>
+                        {!isReadOnly && onAction && (
+                            <div role="cell" className="pf-v5-c-table__td">
+                                <div className="pf-v5-c-dropdown">
+                                    <button className="pf-v5-c-button pf-m-secondary" type="button" onClick={() => onAction('rollback', snap)}>Rollback</button>
+                                    <button className="pf-v5-c-button pf-m-secondary" type="button" onClick={() => onAction('rename', snap)}>Rename</button>
+                                    <button className="pf-v5-c-button pf-m-secondary" type="button" onClick={() => onAction('hold', snap)}>Hold</button>
+                                    {snap.userrefs > 0 && (
+                                        <button className="pf-v5-c-button pf-m-secondary" type="button" onClick={() => onAction('release', snap)}>Release</button>
+                                    )}
+                                    <button className="pf-v5-c-button pf-m-danger" type="button" onClick={() => onAction('destroy', snap)} disabled={snap.userrefs > 0}>Destroy</button>
+                                </div>
+                            </div>
+                        )}
+                        {isReadOnly && onBrowse && (
+                            <div role="cell" className="pf-v5-c-table__td">
+                                <button className="pf-v5-c-button pf-m-secondary" type="button" onClick={() => onBrowse(snap)}>Browse</button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+interface SnapshotActionModalProps {
+    snapshot: SnapshotData;
+    onClose: () => void;
+    onSave: () => void;
+}
+
+const RenameSnapshotModal: React.FC<SnapshotActionModalProps> = ({ snapshot, onClose, onSave }) => {
+    const newName = useValidation(snapshot.snapshot, validateSnapshotName);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSave = () => {
+        newName.handleBlur();
+        if (!newName.isValid || !newName.value) return;
+
+        setLoading(true);
+        setError(null);
+        zfsApi.renameSnapshot(snapshot.name, newName.value)
+                .then(onSave)
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    };
+
+    return (
+        <Modal
+            variant={ModalVariant.small}
+            title={`Rename Snapshot ${snapshot.snapshot}`}
+            isOpen
+            onClose={onClose}
+        >
+            {error && <Alert variant="danger" title="Failed to rename snapshot">{error}</Alert>}
+            <Form>
+                <FormGroup label="New Name" isRequired fieldId="snapshot-rename">
+                    <TextInput
+                        isRequired
+                        type="text"
+                        id="snapshot-rename"
+                        value={newName.value}
+                        onChange={(_event, value) => newName.handleChange(value)}
+                        onBlur={() => newName.handleBlur()}
+                        validated={newName.error ? 'error' : 'default'}
+                    />
+                    {newName.error && (
+                        <FormHelperText>
+                            <HelperText>
+                                <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
+                                    {newName.error}
+                                </HelperTextItem>
+                            </HelperText>
+                        </FormHelperText>
+                    )}
+                </FormGroup>
+            </Form>
+            <div className="pf-v5-c-modal-box__footer">
+                <Button
+                    key="save"
+                    variant="primary"
+                    onClick={handleSave}
+                    isDisabled={loading || !newName.isValid || newName.value === snapshot.snapshot}
+                >
+                    {loading ? <Spinner size="sm" /> : 'Rename'}
+                </Button>
+                <Button key="cancel" variant="link" onClick={onClose}>Cancel</Button>
+            </div>
+        </Modal>
+    );
+};
+
+interface HoldSnapshotModalProps extends SnapshotActionModalProps {
+    mode: 'hold' | 'release';
+}
+
+const HoldSnapshotModal: React.FC<HoldSnapshotModalProps> = ({ snapshot, mode, onClose, onSave }) => {
+    const tag = useValidation(mode === 'hold' ? 'keep' : '', validateHoldTag);
+    const [holds, setHolds] = useState<string[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        zfsApi.listHolds(snapshot.name)
+                .then(setHolds)
+                .catch(err => setError(err.message));
+    }, [snapshot.name]);
+
+    const handleSave = () => {
+        tag.handleBlur();
+        if (!tag.isValid || !tag.value) return;
+
+        setLoading(true);
+        setError(null);
+        const op = mode === 'hold' ? zfsApi.holdSnapshot : zfsApi.releaseSnapshot;
+        op(snapshot.name, tag.value)
+                .then(onSave)
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    };
+
+    return (
+        <Modal
+            variant={ModalVariant.small}
+            title={`${mode === 'hold' ? 'Hold' : 'Release'} Snapshot ${snapshot.snapshot}`}
+            isOpen
+            onClose={onClose}
+        >
+            {error && <Alert variant="danger" title={`Failed to ${mode} snapshot`}>{error}</Alert>}
+            <Content>
+                <p>
+                    A held snapshot cannot be destroyed until all of its holds are released.
+                    Current holds: {holds.join(', ') || 'None'}
+                </p>
+            </Content>
+            <Form>
+                <FormGroup label="Hold Tag" isRequired fieldId="snapshot-hold-tag">
+                    {mode === 'hold'
+                        ? (
+                            <TextInput
+                                isRequired
+                                type="text"
+                                id="snapshot-hold-tag"
+                                value={tag.value}
+                                onChange={(_event, value) => tag.handleChange(value)}
+                                onBlur={() => tag.handleBlur()}
+                                validated={tag.error ? 'error' : 'default'}
+                            />
+                        )
+                        : (
+                            <StringListSelect
+                              id="snapshot-hold-tag"
+                              value={tag.value}
+                              onChange={(v) => tag.handleChange(v)}
+                              options={holds}
+                              placeholder="Select a hold to release"
+                              aria-label="hold-tag-select"
+                            />
+                        )}
+                    {tag.error && (
+                        <FormHelperText>
+                            <HelperText>
+                                <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
+                                    {tag.error}
+                                </HelperTextItem>
+                            </HelperText>
+                        </FormHelperText>
+                    )}
+                </FormGroup>
+            </Form>
+            <div className="pf-v5-c-modal-box__footer">
+                <Button key="save" variant="primary" onClick={handleSave} isDisabled={loading || !tag.isValid || !tag.value}>
+                    {loading ? <Spinner size="sm" /> : (mode === 'hold' ? 'Hold' : 'Release')}
+                </Button>
+                <Button key="cancel" variant="link" onClick={onClose}>Cancel</Button>
+            </div>
+        </Modal>
+    );
+};
+
+const DestroySnapshotModal: React.FC<SnapshotActionModalProps> = ({ snapshot, onClose, onSave }) => {
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleConfirm = () => {
+        setLoading(true);
+        setError(null);
+        zfsApi.destroySnapshot(snapshot.name)
+                .then(onSave)
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    };
+
+    return (
+        <DeleteModal
+            isOpen
+            onClose={onClose}
+            onConfirm={handleConfirm}
+            item={snapshot.name}
+            type="snapshot"
+            loading={loading}
+            error={error}
+        />
+    );
+};
+
+interface RollbackSnapshotModalProps extends SnapshotActionModalProps {
+    newer: SnapshotData[];
+}
+
+const RollbackSnapshotModal: React.FC<RollbackSnapshotModalProps> = ({ snapshot, newer, onClose, onSave }) => {
+    const [confirmed, setConfirmed] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleConfirm = () => {
+        setLoading(true);
+        setError(null);
+        zfsApi.rollbackSnapshot(snapshot.name)
+                .then(onSave)
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    };
+
+    const held = newer.filter(s => s.userrefs > 0);
+
+    return (
+        <Modal
+            variant={ModalVariant.medium}
+            title={`Roll back to ${snapshot.snapshot}`}
+            isOpen
+            onClose={onClose}
+        >
+            {error && <Alert variant="danger" title="Failed to roll back">{error}</Alert>}
+            <Content>
+                <p>
+                    All changes made to <strong>{snapshot.name.slice(0, snapshot.name.indexOf('@'))}</strong> since{' '}
+                    {new Date(snapshot.creation * 1000).toLocaleString()} will be lost.
+                </p>
+                {newer.length > 0
+                    ? (
+                        <>
+                            <p>The following newer snapshots will be destroyed:</p>
+                            <ul>
+                                {newer.map(s => <li key={s.name}>{s.snapshot}</li>)}
+                            </ul>
+                        </>
+                    )
+                    : <p>No other snapshots will be destroyed.</p>}
+            </Content>
+            {held.length > 0 && (
+                <Alert variant="warning" isInline title="Rollback is blocked by held snapshots">
+                    Release the holds on {held.map(s => s.snapshot).join(', ')} first.
+                </Alert>
+            )}
+            <Checkbox
+                label="I understand that this cannot be undone."
+                id="snapshot-rollback-confirm"
+                isChecked={confirmed}
+                onChange={(_event, checked) => setConfirmed(checked)}
+            />
+            <div className="pf-v5-c-modal-box__footer">
+                <Button
+                    key="confirm"
+                    variant="danger"
+                    onClick={handleConfirm}
+                    isDisabled={loading || !confirmed || held.length > 0}
+                >
+                    {loading ? <Spinner size="sm" /> : 'Roll Back'}
+                </Button>
+                <Button key="cancel" variant="link" onClick={onClose}>Cancel</Button>
+            </div>
+        </Modal>
+    );
+};
+
+// #region Snapshot Schedules
+const DEFAULT_RETENTION: Record<SnapshotFrequency, string> = { hourly: '24', daily: '7', weekly: '4', monthly: '12' };
+
+const describeRetention = (schedule?: SnapshotSchedule): string => {
+    if (!schedule) return 'None';
+    const parts = SNAPSHOT_FREQUENCIES
+            .filter(f => (schedule.retention[f] || 0) > 0)
+            .map(f => `${f} (keep ${schedule.retention[f]})`);
+    return parts.join(', ') || 'None';
+};
+
+interface SnapshotScheduleModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave?: () => void;
+    dataset: string;
+    label: string;
+    recursive?: boolean;
+}
+
+const SnapshotScheduleModal: React.FC<SnapshotScheduleModalProps> = ({ isOpen, onClose, onSave, dataset, label, recursive = false }) => {
+    const [existing, setExisting] = useState<SnapshotSchedule | undefined>(undefined);
+    const [enabled, setEnabled] = useState<Partial<Record<SnapshotFrequency, boolean>>>({});
+    const [keep, setKeep] = useState<Record<SnapshotFrequency, string>>(DEFAULT_RETENTION);
+    const [statuses, setStatuses] = useState<Partial<Record<SnapshotFrequency, ScheduleStatus>>>({});
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setLoading(true);
+        setError(null);
+        autosnapApi.loadSchedules()
+                .then(schedules => {
+                    const schedule = schedules.find(s => s.dataset === dataset);
+                    setExisting(schedule);
+                    const active = SNAPSHOT_FREQUENCIES.filter(f => (schedule?.retention[f] || 0) > 0);
+                    setEnabled(Object.fromEntries(active.map(f => [f, true])));
+                    setKeep(Object.fromEntries(SNAPSHOT_FREQUENCIES.map(f => [
+                        f, String(schedule?.retention[f] || DEFAULT_RETENTION[f])
+                    ])) as Record<SnapshotFrequency, string>);
+                    return Promise.all(active.map(f => autosnapApi.getStatus(dataset, f)
+                            .then(status => [f, status] as const)
+                            .catch(() => null)));
+                })
+                .then(results => setStatuses(Object.fromEntries(results.filter(r => r !== null))))
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    }, [isOpen, dataset]);
+
+    const keepErrors = Object.fromEntries(SNAPSHOT_FREQUENCIES
+            .filter(f => enabled[f])
+            .map(f => [f, validateKeepCount(keep[f]).error])
+            .filter(([, err]) => err)) as Partial<Record<SnapshotFrequency, string>>;
+    const isFormValid = Object.keys(keepErrors).length === 0;
+
+    const save = (retention: SnapshotSchedule['retention']) => {
+        setSaving(true);
+        setError(null);
+        autosnapApi.saveSchedule({ dataset, recursive, retention })
+                .then(() => {
+                    onSave?.();
+                    onClose();
+                })
+                .catch(err => setError(err.message))
+                .finally(() => setSaving(false));
+    };
+
+    const handleSave = () => {
+        if (!isFormValid) return;
+        save(Object.fromEntries(SNAPSHOT_FREQUENCIES
+                .filter(f => enabled[f])
+                .map(f => [f, Number(keep[f])])));
+    };
+
+    return (
+        <Modal
+            variant={ModalVariant.medium}
+            title={`Automatic Snapshots for ${label}`}
+            isOpen={isOpen}
+            onClose={onClose}
+        >
+            {error && <Alert variant="danger" title="Failed to update snapshot schedule">{error}</Alert>}
+            <Content>
+                <p>
+                    Snapshots of <strong>{dataset}</strong>{recursive && ' and all of its child datasets'} are taken by systemd timers.
+                    After each run only the newest snapshots of that frequency are kept; older ones are destroyed.
+                    Manually created or held snapshots are never pruned.
+                </p>
+            </Content>
+            {loading
+                ? <Spinner />
+                : (
+                    <Form>
+                        {SNAPSHOT_FREQUENCIES.map(f => (
+                            <FormGroup key={f} fieldId={`schedule-${f}`}>
+                                <div style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
+                                    <Checkbox
+                                        label={f.charAt(0).toUpperCase() + f.slice(1)}
+                                        id={`schedule-${f}`}
+                                        isChecked={!!enabled[f]}
+                                        onChange={(_event, checked) => setEnabled({ ...enabled, [f]: checked })}
+                                    />
+                                    <TextInput
+                                        type="number"
+                                        id={`schedule-${f}-keep`}
+                                        aria-label={`${f} snapshots to keep`}
+                                        style={{ maxWidth: '8rem' }}
+                                        value={keep[f]}
+                                        isDisabled={!enabled[f]}
+                                        onChange={(_event, value) => setKeep({ ...keep, [f]: value })}
+                                        validated={keepErrors[f] ? 'error' : 'default'}
+                                    />
+                                    <span>snapshots to keep</span>
+                                </div>
+                                <FormHelperText>
+                                    <HelperText>
+                                        {keepErrors[f]
+                                            ? (
+                                                <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
+                                                    {keepErrors[f]}
+                                                </HelperTextItem>
+                                            )
+                                            : statuses[f] && (
+                                                <HelperTextItem>
+                                                    Next run: {statuses[f]?.nextRun || '-'} · Last run: {statuses[f]?.lastRun} · Last result: {statuses[f]?.lastResult}
+                                                </HelperTextItem>
+                                            )}
+                                    </HelperText>
+                                </FormHelperText>
+                            </FormGroup>
+                        ))}
+                    </Form>
+                )}
+            <div className="pf-v5-c-modal-box__footer">
+                <Button key="save" variant="primary" onClick={handleSave} isDisabled={loading || saving || !isFormValid}>
+                    {saving ? <Spinner size="sm" /> : 'Save'}
+                </Button>
+                {existing && (
+                    <Button key="remove" variant="danger" onClick={() => save({})} isDisabled={loading || saving}>
+                        Remove Schedule
+                    </Button>
+                )}
+                <Button key="cancel" variant="link" onClick={onClose}>Cancel</Button>
+            </div>
+        </Modal>
+    );
+};
+
+interface PoolSnapshotSchedulesProps {
+    pools: string[];
+    isReadOnly?: boolean;
+}
+
+const PoolSnapshotSchedules: React.FC<PoolSnapshotSchedulesProps> = ({ pools, isReadOnly = false }) => {
+    const [schedules, setSchedules] = useState<SnapshotSchedule[]>([]);
+    const [selectedPool, setSelectedPool] = useState<string | null>(null);
+
+    const refresh = useCallback(() => {
+        autosnapApi.loadSchedules()
+                .then(setSchedules)
+                .catch(() => setSchedules([]));
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    return (
+        <Card>
+            <CardTitle>Automatic Snapshots (pool-wide defaults)</CardTitle>
+            <CardBody>
+                <Grid hasGutter>
+                    {pools.map(pool => (
+                        <GridItem key={pool} span={12}>
+                            <strong>{pool}:</strong> {describeRetention(schedules.find(s => s.dataset === pool))}
+                            {!isReadOnly && (
+                                <Button variant="link" isInline onClick={() => setSelectedPool(pool)} style={{ marginLeft: '1rem' }}>
+                                    Configure
+                                </Button>
+                            )}
+                        </GridItem>
+                    ))}
+                </Grid>
+            </CardBody>
+            {selectedPool && (
+                <SnapshotScheduleModal
+                    key={selectedPool}
+                    isOpen
+                    onClose={() => setSelectedPool(null)}
+                    onSave={refresh}
+                    dataset={selectedPool}
+                    label={`pool ${selectedPool}`}
+                    recursive
+                />
+            )}
+        </Card>
+    );
+};
+
+// #region Access Tab
+const ACCESS_LEVEL_COLORS: Record<AccessLevel, 'green' | 'blue' | 'grey'> = { write: 'green', read: 'blue', none: 'grey' };
+
+interface AccessTabProps {
+    state: State;
+}
+
+const AccessTab: React.FC<AccessTabProps> = ({ state }) => {
+    const [userFilter, setUserFilter] = useState('');
+    const [shareFilter, setShareFilter] = useState('');
+    const [levelFilter, setLevelFilter] = useState<AccessLevel | ''>('');
+    const [selected, setSelected] = useState<{ user: string; share: string } | null>(null);
+
+    const matrix = useMemo(() => Object.keys(state.users || {}).sort()
+            .map(user => ({
+                user,
+                access: Object.fromEntries(Object.entries(state.shares || {})
+                        .map(([share, data]) => [share, computeEffectiveAccess(user, data, state)]))
+            })), [state]);
+
+    const shares = Object.keys(state.shares || {}).sort()
+            .filter(s => s.toLowerCase().includes(shareFilter.toLowerCase()));
+    const rows = matrix
+            .filter(r => r.user.toLowerCase().includes(userFilter.toLowerCase()))
+            .filter(r => !levelFilter || shares.some(s => r.access[s].level === levelFilter));
+
+    const selectedAccess = selected ? matrix.find(r => r.user === selected.user)?.access[selected.share] : undefined;
+
+    return (
+        <PageSection>
+            <Content>
+                <p>
+                    Effective access combines the share's valid users (with groups expanded), its read-only flag
+                    and the permissions of the share directory. Select a cell to see why.
+                </p>
+            </Content>
+            <Form isHorizontal style={{ paddingBottom: '1rem' }}>
+                <Grid hasGutter>
+                    <GridItem span={4}>
+                        <FormGroup label="Users" fieldId="access-user-filter">
+                            <TextInput
+                                type="text"
+                                id="access-user-filter"
+                                placeholder="Filter users…"
+                                value={userFilter}
+                                onChange={(_event, value) => setUserFilter(value)}
+                            />
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={4}>
+                        <FormGroup label="Shares" fieldId="access-share-filter">
+                            <TextInput
+                                type="text"
+                                id="access-share-filter"
+                                placeholder="Filter shares…"
+                                value={shareFilter}
+                                onChange={(_event, value) => setShareFilter(value)}
+                            />
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={4}>
+                        <FormGroup label="Access" fieldId="access-level-filter">
+                            <select
+                                id="access-level-filter"
+                                className="pf-v5-c-form-control"
+                                value={levelFilter}
+                                onChange={(e) => setLevelFilter(e.target.value as AccessLevel | '')}
+                                aria-label="access-level-filter"
+                            >
+                                <option value="">Any</option>
+                                <option value="write">Users with write access</option>
+                                <option value="read">Users with read access</option>
+                                <option value="none">Users without access</option>
+                            </select>
+                        </FormGroup>
+                    </GridItem>
+                </Grid>
+            </Form>
+
+            {rows.length === 0 || shares.length === 0
+                ? (
+                    <EmptyState>
+                        <Title headingLevel="h4" size="md">Nothing to show</Title>
+                        <EmptyStateBody>No users or shares match the current filters.</EmptyStateBody>
+                    </EmptyState>
+                )
+                : (
+                    <div className="smbzfs-table-wrap">
+                        <div className="pf-v5-c-table pf-m-compact" role="grid" aria-label="Access Matrix">
+                            <div className="pf-v5-c-table__thead" role="rowgroup">
+                                <div className="pf-v5-c-table__tr" role="row">
+                                    <div role="columnheader" className="pf-v5-c-table__th">User</div>
+                                    {shares.map(share => (
+                                        <div key={share} role="columnheader" className="pf-v5-c-table__th">{share}</div>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="pf-v5-c-table__tbody" role="rowgroup">
+                                {rows.map(row => (
+                                    <div key={row.user} className="pf-v5-c-table__tr" role="row">
+                                        <div role="cell" className="pf-v5-c-table__td"><strong>{row.user}</strong></div>
+                                        {shares.map(share => {
+                                            const access = row.access[share];
+                                            return (
+                                                <div key={share} role="cell" className="pf-v5-c-table__td">
+                                                    <Label
+                                                        isCompact
+                                                        color={ACCESS_LEVEL_COLORS[access.level]}
+                                                        variant={selected?.user === row.user && selected?.share === share ? 'filled' : 'outline'}
+                                                        onClick={() => setSelected({ user: row.user, share })}
+                                                        title={access.reasons.join('\n')}
+                                                    >
+                                                        {access.level}
+                                                    </Label>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+            {selected && selectedAccess && (
+                <Card style={{ marginTop: '1rem' }}>
+                    <CardTitle>Why {selected.user} has {selectedAccess.level} access to {selected.share}</CardTitle>
+                    <CardBody>
+                        <ul>
+                            {selectedAccess.reasons.map((reason, i) => <li key={i}>{reason}</li>)}
+                        </ul>
+                    </CardBody>
+                </Card>
+            )}
+        </PageSection>
+    );
+};
+
+// #region Desired State Tab
+interface DesiredStateTabProps {
+    state: State;
+    onRefresh: () => void;
+}
+
+const DesiredStateTab: React.FC<DesiredStateTabProps> = ({ state, onRefresh }) => {
+    const policy = usePasswordPolicy();
+    // Kept in the session so a state reload after applying does not discard the edited document
+    const [text, setText] = useState(() => window.sessionStorage.getItem(DESIRED_STATE_SESSION_KEY) ?? desiredStateApi.fromState(state));
+    const [path, setPath] = useState(DESIRED_STATE_DEFAULT_PATH);
+    const [allowDeletes, setAllowDeletes] = useState(false);
+    const [passwords, setPasswords] = useState<Record<string, string>>({});
+    const [resolutions, setResolutions] = useState<Record<string, 'skip' | 'update'>>({});
+    const [statuses, setStatuses] = useState<Record<string, PlanStepStatus>>({});
+    const [createdUsers, setCreatedUsers] = useState<string[]>([]);
+    const [running, setRunning] = useState(false);
+    const [fileMessage, setFileMessage] = useState<{ variant: 'success' | 'danger'; text: string } | null>(null);
+
+    useEffect(() => {
+        window.sessionStorage.setItem(DESIRED_STATE_SESSION_KEY, text);
+    }, [text]);
+
+    const parsed = useMemo(() => {
+        try {
+            return { desired: desiredStateApi.parse(text), error: null };
+        } catch (err) {
+            return { desired: null, error: err instanceof Error ? err.message : String(err) };
+        }
+    }, [text]);
+
+    // Temporary passwords are generated once per new user name and kept while the document is edited
+    // and generated again once the policy has loaded, so that they satisfy it
+    const passwordFor = useCallback((user: string) => passwords[user] || '', [passwords]);
+    useEffect(() => setPasswords({}), [policy]);
+    useEffect(() => {
+        const missing = Object.keys(parsed.desired?.users || {}).filter(u => !state.users?.[u] && !passwords[u]);
+        if (missing.length > 0) setPasswords(p => ({ ...p, ...Object.fromEntries(missing.map(u => [u, generatePolicyPassword(policy)])) }));
+    }, [parsed, state, passwords, policy]);
+
+    const plan = useMemo(() => (parsed.desired ? desiredStateApi.plan(parsed.desired, state, passwordFor) : null), [parsed, state, passwordFor]);
+    const steps = plan ? [...plan.steps, ...(allowDeletes ? plan.deletions : [])] : [];
+
+    const handleLoad = () => {
+        setFileMessage(null);
+        desiredStateApi.load(path)
+                .then(content => {
+                    setText(content);
+                    setStatuses({});
+                })
+                .catch(err => setFileMessage({ variant: 'danger', text: err.message }));
+    };
+
+    const handleSave = () => {
+        setFileMessage(null);
+        desiredStateApi.save(path, text)
+                .then(() => setFileMessage({ variant: 'success', text: `Saved to ${path}.` }))
+                .catch(err => setFileMessage({ variant: 'danger', text: err.message }));
+    };
+
+    const handleApply = async () => {
+        setRunning(true);
+        setStatuses({});
+        setCreatedUsers([]);
+        await runPlan(steps, resolutions, (key, status) => setStatuses(s => ({ ...s, [key]: status })),
+                      step => setCreatedUsers(c => [...c, step.name]));
+        setRunning(false);
+    };
+
+    const downloadCredentials = () => {
+        const rows = createdUsers.map(u => `${csvEscape(u)},${csvEscape(passwords[u])}`);
+        downloadFile('smb-zfs-new-user-passwords.csv', ['user,temporary_password', ...rows].join('\n'), 'text/csv');
+    };
+
+    const hasRun = Object.keys(statuses).length > 0;
+
+    return (
+        <PageSection>
+            <Grid hasGutter>
+                <GridItem span={12} xl={5}>
+                    <Card>
+                        <CardTitle>Desired State Document</CardTitle>
+                        <CardBody>
+                            <Content>
+                                <p>
+                                    YAML or JSON describing groups, users (including their group memberships) and shares.
+                                    Settings left out of an existing item are not changed. New users get temporary passwords.
+                                </p>
+                            </Content>
+                            <TextArea
+                                id="desired-state-text"
+                                aria-label="Desired state document"
+                                value={text}
+                                onChange={(_event, value) => setText(value)}
+                                rows={24}
+                                resizeOrientation="vertical"
+                                style={{ fontFamily: 'monospace' }}
+                                validated={parsed.error ? 'error' : 'default'}
+                                isDisabled={running}
+                            />
+                            {parsed.error && (
+                                <HelperText>
+                                    {parsed.error.split('\n').map((line, i) => (
+                                        <HelperTextItem key={i} variant="error" icon={<ExclamationTriangleIcon />}>{line}</HelperTextItem>
+                                    ))}
+                                </HelperText>
+                            )}
+                            <Form isHorizontal style={{ marginTop: '1rem' }}>
+                                <FormGroup label="Host Path" fieldId="desired-state-path">
+                                    <TextInput type="text" id="desired-state-path" value={path} onChange={(_event, value) => setPath(value)} />
+                                </FormGroup>
+                            </Form>
+                            <div style={{ marginTop: '0.5rem' }}>
+                                <Button variant="secondary" onClick={handleLoad} isDisabled={running || !path}>Load</Button>{' '}
+                                <Button variant="secondary" onClick={handleSave} isDisabled={running || !path}>Save</Button>{' '}
+                                <Button variant="link" onClick={() => setText(desiredStateApi.fromState(state))} isDisabled={running}>
+                                    Reset to Current State
+                                </Button>
+                            </div>
+                            {fileMessage && <Alert variant={fileMessage.variant} isInline title={fileMessage.text} style={{ marginTop: '0.5rem' }} />}
+                        </CardBody>
+                    </Card>
+                </GridItem>
+                <GridItem span={12} xl={7}>
+                    <Card>
+                        <CardTitle>Plan</CardTitle>
+                        <CardBody>
+                            {!plan && <Content><p>Fix the document to see the plan.</p></Content>}
+                            {plan && steps.length === 0 && plan.deletions.length === 0 && (
+                                <Content><p>The system already matches the document.</p></Content>
+                            )}
+                            {plan && steps.length > 0 && (
+                                <PlanStepsTable
+                                    steps={steps}
+                                    statuses={statuses}
+                                    resolutions={resolutions}
+                                    onResolve={(key, resolution) => setResolutions(r => ({ ...r, [key]: resolution }))}
+                                    isDisabled={running}
+                                />
+                            )}
+                            {plan && plan.deletions.length > 0 && (
+                                <Alert
+                                    variant="warning"
+                                    isInline
+                                    style={{ marginTop: '1rem' }}
+                                    title={`${plan.deletions.length} item${plan.deletions.length === 1 ? ' is' : 's are'} not in the document: ${plan.deletions.map(d => `${d.kind} ${d.name}`).join(', ')}`}
+                                >
+                                    <Checkbox
+                                        id="desired-state-deletes"
+                                        label="Delete them as part of the plan (their data is kept unless deleted separately)"
+                                        isChecked={allowDeletes}
+                                        onChange={(_event, checked) => setAllowDeletes(checked)}
+                                        isDisabled={running}
+                                    />
+                                </Alert>
+                            )}
+                            <div style={{ marginTop: '1rem' }}>
+                                <Button
+                                    variant={allowDeletes ? 'danger' : 'primary'}
+                                    onClick={handleApply}
+                                    isDisabled={running || steps.length === 0}
+                                >
+                                    {running ? <Spinner size="sm" /> : 'Apply Plan'}
+                                </Button>{' '}
+                                {createdUsers.length > 0 && (
+                                    <Button variant="secondary" onClick={downloadCredentials}>Download Temporary Passwords</Button>
+                                )}{' '}
+                                {hasRun && !running && <Button variant="link" onClick={onRefresh}>Reload State</Button>}
+                            </div>
+                        </CardBody>
+                    </Card>
+                </GridItem>
+            </Grid>
+        </PageSection>
+    );
+};
+
+// #region Drift Tab
+interface DriftTabProps {
+    state: State;
+    isActive: boolean;
+    onRefresh: () => void;
+}
+
+const DriftTab: React.FC<DriftTabProps> = ({ state, isActive, onRefresh }) => {
+    const [items, setItems] = useState<DriftItem[] | null>(null);
+    const [checking, setChecking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+    const [passwordUser, setPasswordUser] = useState<string | null>(null);
+
+    const check = useCallback(() => {
+        setChecking(true);
+        setError(null);
+        driftApi.detect(state)
+                .then(setItems)
+                .catch(err => setError(err.message))
+                .finally(() => setChecking(false));
+    }, [state]);
+
+    // The check runs testparm, pdbedit and zfs; only do that while the tab is visible (Tabs keeps hidden panels mounted)
+    useEffect(() => {
+        if (isActive) check();
+    }, [isActive, check]);
+
+    const itemKey = (item: DriftItem) => `${item.kind}:${item.target}:${item.setting}`;
+
+    // Both directions are a modify call: reapply sends the state value, accept records the live value in the state
+    const runAction = (item: DriftItem, command: string[] | null) => {
+        if (!command) return;
+        setBusy(itemKey(item));
+        setActionError(null);
+        smbZfsApi.run(command)
+                .then(onRefresh)
+                .catch(err => setActionError(err.message))
+                .finally(() => setBusy(null));
+    };
+
+    return (
+        <PageSection>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', paddingBottom: '1rem' }}>
+                <Content>
+                    <p>Differences between what smb-zfs has recorded and the live Samba configuration, ZFS properties, share directories and passdb.</p>
+                </Content>
+                <Button variant="secondary" onClick={check} isDisabled={checking}>
+                    {checking ? <Spinner size="sm" /> : 'Check Again'}
+                </Button>
+            </div>
+            {error && <Alert variant="danger" title="Failed to check for drift">{error}</Alert>}
+            {actionError && <Alert variant="danger" title="Failed to resolve drift">{actionError}</Alert>}
+            {items && items.length === 0 && (
+                <EmptyState>
+                    <Title headingLevel="h4" size="md">No drift detected</Title>
+                    <EmptyStateBody>The live system matches the smb-zfs state.</EmptyStateBody>
+                </EmptyState>
+            )}
+            {items && items.length > 0 && (
+                <div className="pf-v5-c-table pf-m-grid-md" role="grid" aria-label="Drift Table">
+                    <div className="pf-v5-c-table__thead" role="rowgroup">
+                        <div className="pf-v5-c-table__tr" role="row">
+                            {['Item', 'Setting', 'smb-zfs State', 'Live Value', ''].map((col, i) => (
+                                <div key={i} role="columnheader" className="pf-v5-c-table__th">{col}</div>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="pf-v5-c-table__tbody" role="rowgroup">
+                        {items.map(item => (
+                            <div key={itemKey(item)} className="pf-v5-c-table__tr" role="row">
+                                <div role="cell" className="pf-v5-c-table__td">{item.kind} <strong>{item.target}</strong></div>
+                                <div role="cell" className="pf-v5-c-table__td">{item.setting}</div>
+                                <div role="cell" className="pf-v5-c-table__td"><code>{item.expected || '(empty)'}</code></div>
+                                <div role="cell" className="pf-v5-c-table__td"><code>{item.actual || '(empty)'}</code></div>
+                                <div role="cell" className="pf-v5-c-table__td">
+                                    {busy === itemKey(item) && <Spinner size="sm" />}
+                                    <div className="pf-v5-c-dropdown">
+                                        {item.reapply && (
+                                            <button className="pf-v5-c-button pf-m-primary" type="button" disabled={!!busy} onClick={() => runAction(item, item.reapply)}>
+                                                Reapply from State
+                                            </button>
+                                        )}
+                                        {item.accept && (
+                                            <button className="pf-v5-c-button pf-m-secondary" type="button" disabled={!!busy} onClick={() => runAction(item, item.accept)}>
+                                                Accept Live Value
+                                            </button>
+                                        )}
+                                        {item.kind === 'user' && item.setting === 'Samba account' && (
+                                            <button className="pf-v5-c-button pf-m-primary" type="button" onClick={() => setPasswordUser(item.target)}>
+                                                Set Password
+                                            </button>
+                                        )}
+                                    </div>
+                                    {item.note && <HelperText><HelperTextItem>{item.note}</HelperTextItem></HelperText>}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {passwordUser && (
+                <ChangePasswordModal
+                    isOpen
+                    onClose={() => setPasswordUser(null)}
+                    onSave={check}
+                    user={passwordUser}
+                />
+            )}
+        </PageSection>
+    );
+};
+
+// #region Sessions Tab
+const SESSION_POLL_INTERVAL = 5000;
+
+interface SessionsTabProps {
+    isActive: boolean;
+}
+
+const SessionsTab: React.FC<SessionsTabProps> = ({ isActive }) => {
+    const [status, setStatus] = useState<SmbStatus | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [autoRefresh, setAutoRefresh] = useState(true);
+    const [userFilter, setUserFilter] = useState('');
+    const [pending, setPending] = useState<{ type: 'session' | 'user'; target: string } | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    const refresh = useCallback(() => {
+        sambaApi.getStatus()
+                .then(result => {
+                    setStatus(result);
+                    setError(null);
+                })
+                .catch(err => setError(err.message));
+    }, []);
+
+    // Only poll while the tab is visible; Tabs keeps hidden panels mounted
+    useEffect(() => {
+        if (!isActive) return;
+        refresh();
+        if (!autoRefresh) return;
+        const timer = window.setInterval(refresh, SESSION_POLL_INTERVAL);
+        return () => window.clearInterval(timer);
+    }, [isActive, autoRefresh, refresh]);
+
+    const handleDisconnect = () => {
+        if (!pending) return;
+        setLoading(true);
+        setActionError(null);
+        const action = pending.type === 'session'
+            ? sambaApi.disconnectSession(pending.target)
+            : sambaApi.disconnectUser(pending.target);
+        action
+                .then(() => {
+                    setPending(null);
+                    refresh();
+                })
+                .catch(err => setActionError(err.message))
+                .finally(() => setLoading(false));
+    };
+
+    const matches = (user: string) => user.toLowerCase().includes(userFilter.toLowerCase());
+    const sessions = (status?.sessions || []).filter(s => matches(s.username));
+    const userByPid = new Map((status?.sessions || []).map(s => [s.pid, s.username]));
+    const connections = (status?.connections || []).filter(c => matches(userByPid.get(c.pid) || ''));
+    const lockedFiles = (status?.lockedFiles || []).filter(f => matches(userByPid.get(f.pid) || ''));
+
+    const renderTable = (label: string, columns: string[], rows: { key: string; cells: React.ReactNode[] }[]) => (
+        rows.length === 0
+            ? <EmptyStateBody>None.</EmptyStateBody>
+            : (
+                <div className="smbzfs-table-wrap">
+                    <div className="pf-v5-c-table pf-m-compact" role="grid" aria-label={label}>
+                        <div className="pf-v5-c-table__thead" role="rowgroup">
+                            <div className="pf-v5-c-table__tr" role="row">
+                                {columns.map((col, i) => (
+                                    <div key={i} role="columnheader" className="pf-v5-c-table__th">{col}</div>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="pf-v5-c-table__tbody" role="rowgroup">
+                            {rows.map(row => (
+                                <div key={row.key} className="pf-v5-c-table__tr" role="row">
+                                    {row.cells.map((cell, i) => (
+                                        <div key={`${row.key}-${i}`} role="cell" className="pf-v5-c-table__td">{cell}</div>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )
+    );
+
+    return (
+        <PageSection>
+            <Form isHorizontal style={{ paddingBottom: '1rem' }}>
+                <Grid hasGutter>
+                    <GridItem span={6}>
+                        <FormGroup label="User" fieldId="sessions-user-filter">
+                            <TextInput
+                                type="text"
+                                id="sessions-user-filter"
+                                placeholder="Filter users…"
+                                value={userFilter}
+                                onChange={(_event, value) => setUserFilter(value)}
+                            />
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={6} style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: '1rem' }}>
+                        <Checkbox
+                            id="sessions-auto-refresh"
+                            label={`Refresh every ${SESSION_POLL_INTERVAL / 1000} seconds`}
+                            isChecked={autoRefresh}
+                            onChange={(_event, checked) => setAutoRefresh(checked)}
+                        />
+                        <Button variant="secondary" onClick={refresh}>Refresh</Button>
+                    </GridItem>
+                </Grid>
+            </Form>
+
+            {error && <Alert variant="danger" title="Failed to read Samba status">{error}</Alert>}
+            {!status && !error && <Spinner />}
+
+            {status && (
+                <>
+                    <Card>
+                        <CardTitle>Sessions ({sessions.length})</CardTitle>
+                        <CardBody>
+                            {renderTable('Sessions Table',
+                                         ['PID', 'User', 'Group', 'Client', 'Protocol', 'Encryption', 'Signing', ''],
+                                         sessions.map(s => ({
+                                             key: s.pid,
+                                             cells: [
+                                                 s.pid,
+                                                 s.username,
+                                                 s.group,
+                                                 s.machine,
+                                                 s.protocol,
+                                                 s.encryption,
+                                                 s.signing,
+                                                 <div key="actions" className="pf-v5-c-dropdown">
+                                                     <button className="pf-v5-c-button pf-m-secondary" type="button" onClick={() => setPending({ type: 'session', target: s.pid })}>Disconnect</button>
+                                                     <button className="pf-v5-c-button pf-m-danger" type="button" onClick={() => setPending({ type: 'user', target: s.username })}>Disconnect User</button>
+                                                 </div>
+                                             ]
+                                         })))}
+                        </CardBody>
+                    </Card>
+                    <Card style={{ marginTop: '1rem' }}>
+                        <CardTitle>Share Connections ({connections.length})</CardTitle>
+                        <CardBody>
+                            {renderTable('Share Connections Table',
+                                         ['Share', 'PID', 'User', 'Client', 'Connected At'],
+                                         connections.map(c => ({
+                                             key: `${c.pid}-${c.share}`,
+                                             cells: [c.share, c.pid, userByPid.get(c.pid) || '-', c.machine, c.connectedAt]
+                                         })))}
+                        </CardBody>
+                    </Card>
+                    <Card style={{ marginTop: '1rem' }}>
+                        <CardTitle>Locked Files ({lockedFiles.length})</CardTitle>
+                        <CardBody>
+                            {renderTable('Locked Files Table',
+                                         ['File', 'PID', 'User', 'Share Mode', 'Oplock', 'Opened At'],
+                                         lockedFiles.map((f, i) => ({
+                                             key: `${f.pid}-${f.path}-${i}`,
+                                             cells: [f.path, f.pid, userByPid.get(f.pid) || f.uid, f.mode, f.oplock, f.openedAt]
+                                         })))}
+                        </CardBody>
+                    </Card>
+                </>
+            )}
+
+            <Modal
+                variant={ModalVariant.small}
+                title={pending?.type === 'user' ? `Disconnect User ${pending.target}` : 'Disconnect Session'}
+                isOpen={!!pending}
+                onClose={() => setPending(null)}
+            >
+                {actionError && <Alert variant="danger" title="Failed to disconnect">{actionError}</Alert>}
+                <p>
+                    {pending?.type === 'user'
+                        ? <>All sessions of <strong>{pending.target}</strong> will be closed.</>
+                        : <>The session served by process <strong>{pending?.target}</strong> will be closed.</>}
+                    {' '}Unsaved changes in files the client has open may be lost.
+                </p>
+                <div className="pf-v5-c-modal-box__footer">
+                    <Button key="confirm" variant="danger" onClick={handleDisconnect} isDisabled={loading}>
+                        {loading ? <Spinner size="sm" /> : 'Disconnect'}
+                    </Button>
+                    <Button key="cancel" variant="link" onClick={() => setPending(null)}>Cancel</Button>
+                </div>
+            </Modal>
+        </PageSection>
+    );
+};
+
+// #region Operations Drawer
+const OPERATION_STATUS_COLORS: Record<OperationStatus, 'blue' | 'green' | 'red'> = {
+    running: 'blue',
+    succeeded: 'green',
+    failed: 'red',
+};
+
+const useOperations = () => useSyncExternalStore(operationsLog.subscribe, operationsLog.jobs);
+
+const OperationEntry: React.FC<{ job: OperationJob }> = ({ job }) => {
+    const [expanded, setExpanded] = useState(job.status !== 'succeeded');
+
+    return (
+        <div style={{ borderBottom: '1px solid #d2d2d2', padding: '0.5rem 0' }}>
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                <Label color={OPERATION_STATUS_COLORS[job.status]}>
+                    {job.status === 'running' ? <Spinner size="sm" /> : job.status}
+                    {job.exitCode !== undefined && ` (exit ${job.exitCode})`}
+                </Label>
+                <code style={{ wordBreak: 'break-all' }}>smb-zfs {job.command.join(' ')}</code>
+            </div>
+            <small>
+                Started {new Date(job.started).toLocaleString()}
+                {job.finished && `, finished ${new Date(job.finished).toLocaleString()}`}
+            </small>
+            <ExpandableSection
+                toggleText={expanded ? 'Hide output' : 'Show output'}
+                isExpanded={expanded}
+                onToggle={(_event, value) => setExpanded(value)}
+            >
+                <pre style={{ maxHeight: '16rem', overflow: 'auto', whiteSpace: 'pre-wrap' }}>{job.output || '(no output)'}</pre>
+            </ExpandableSection>
+        </div>
+    );
+};
+
+interface OperationsDrawerProps {
+    onClose: () => void;
+}
+
+// Every mutating smb-zfs call of this browser session, newest first
+const OperationsDrawer: React.FC<OperationsDrawerProps> = ({ onClose }) => {
+    const jobs = useOperations();
+    const [filter, setFilter] = useState('');
+    const [status, setStatus] = useState<OperationStatus | ''>('');
+
+    const shown = jobs.filter(job => (!status || job.status === status) &&
+            job.command.join(' ').toLowerCase()
+                    .includes(filter.toLowerCase()))
+            .reverse();
+
+    return (
+        <>
+            <DrawerHead>
+                <Title headingLevel="h2" size="lg">Operations</Title>
+                <DrawerActions>
+                    <DrawerCloseButton onClick={onClose} />
+                </DrawerActions>
+            </DrawerHead>
+            <DrawerPanelBody>
+                <div style={{ display: 'flex', gap: '0.5rem', paddingBottom: '0.5rem' }}>
+                    <TextInput
+                        type="search"
+                        id="operations-filter"
+                        aria-label="Filter operations"
+                        placeholder="Filter commands…"
+                        value={filter}
+                        onChange={(_event, value) => setFilter(value)}
+                    />
+                    <select
+                        className="pf-v5-c-form-control"
+                        aria-label="Filter by status"
+                        value={status}
+                        onChange={(e) => setStatus(e.target.value as OperationStatus | '')}
+                    >
+                        <option value="">All</option>
+                        <option value="running">Running</option>
+                        <option value="succeeded">Succeeded</option>
+                        <option value="failed">Failed</option>
+                    </select>
+                    <Button variant="link" onClick={() => operationsLog.clear()} isDisabled={jobs.every(job => job.status === 'running')}>
+                        Clear
+                    </Button>
+                </div>
+                {shown.length === 0
+                    ? <EmptyStateBody>{jobs.length === 0 ? 'No operations in this session.' : 'No operations match the filter.'}</EmptyStateBody>
+                    : shown.map(job => <OperationEntry key={job.id} job={job} />)}
+            </DrawerPanelBody>
+        </>
+    );
+};
+
+// #endregion
+
+// #region Audit Tab
+const AUDIT_COLUMNS = ['time', 'user', 'action', 'object', 'result', 'exit_code', 'command', 'error'];
+
+interface AuditTabProps {
+    isActive: boolean;
+}
+
+const AuditTab: React.FC<AuditTabProps> = ({ isActive }) => {
+    const [records, setRecords] = useState<AuditRecord[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [search, setSearch] = useState('');
+    const [userFilter, setUserFilter] = useState('');
+    const [actionFilter, setActionFilter] = useState('');
+    const [objectFilter, setObjectFilter] = useState('');
+
+    const refresh = useCallback(() => {
+        auditLog.read()
+                .then(result => {
+                    setRecords(result);
+                    setError(null);
+                })
+                .catch(err => setError(err.message));
+    }, []);
+
+    // Re-read whenever the tab is shown, the log grows with every change made elsewhere
+    useEffect(() => {
+        if (isActive) refresh();
+    }, [isActive, refresh]);
+
+    const all = records || [];
+    const users = [...new Set(all.map(r => r.user))].sort();
+    const actions = [...new Set(all.map(r => r.action))].sort();
+    const query = search.toLowerCase();
+    const shown = all.filter(r => (!userFilter || r.user === userFilter) &&
+            (!actionFilter || r.action === actionFilter) &&
+            r.object.toLowerCase().includes(objectFilter.toLowerCase()) &&
+            (!query || [r.command.join(' '), r.error || ''].some(text => text.toLowerCase().includes(query))))
+            .reverse();
+
+    const exportCsv = () => {
+        const rows = shown.map(r => [
+            r.time, r.user, r.action, r.object, r.result, r.exitCode === undefined ? '' : String(r.exitCode),
+            r.command.join(' '), r.error || '',
+        ].map(csvEscape).join(','));
+        downloadFile('smb-zfs-audit.csv', [AUDIT_COLUMNS.join(','), ...rows].join('\n'), 'text/csv');
+    };
+
+    const renderSelect = (id: string, label: string, value: string, options: string[], onChange: (value: string) => void) => (
+        <FormGroup label={label} fieldId={id}>
+            <select id={id} className="pf-v5-c-form-control" value={value} onChange={(e) => onChange(e.target.value)}>
+                <option value="">All</option>
+                {options.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+        </FormGroup>
+    );
+
+    return (
+        <PageSection>
+            <Form isHorizontal style={{ paddingBottom: '1rem' }}>
+                <Grid hasGutter>
+                    <GridItem span={3}>{renderSelect('audit-user-filter', 'User', userFilter, users, setUserFilter)}</GridItem>
+                    <GridItem span={3}>{renderSelect('audit-action-filter', 'Action', actionFilter, actions, setActionFilter)}</GridItem>
+                    <GridItem span={3}>
+                        <FormGroup label="Object" fieldId="audit-object-filter">
+                            <TextInput
+                                type="text"
+                                id="audit-object-filter"
+                                placeholder="Filter objects…"
+                                value={objectFilter}
+                                onChange={(_event, value) => setObjectFilter(value)}
+                            />
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={3}>
+                        <FormGroup label="Search" fieldId="audit-search">
+                            <TextInput
+                                type="search"
+                                id="audit-search"
+                                placeholder="Commands and errors…"
+                                value={search}
+                                onChange={(_event, value) => setSearch(value)}
+                            />
+                        </FormGroup>
+                    </GridItem>
+                    <GridItem span={12} style={{ display: 'flex', justifyContent: 'flex-end', gap: '1rem' }}>
+                        <Button variant="secondary" onClick={refresh}>Refresh</Button>
+                        <Button variant="secondary" onClick={exportCsv} isDisabled={shown.length === 0}>Export CSV</Button>
+                    </GridItem>
+                </Grid>
+            </Form>
+
+            {error && <Alert variant="danger" title={`Failed to read ${AUDIT_LOG}`}>{error}</Alert>}
+            {!records && !error && <Spinner />}
+
+            {records && (
+                <Card>
+                    <CardTitle>Audit Log ({shown.length} of {all.length})</CardTitle>
+                    <CardBody>
+                        {shown.length === 0
+                            ? <EmptyStateBody>{all.length === 0 ? 'No changes have been recorded yet.' : 'No records match the filters.'}</EmptyStateBody>
+                            : (
+                                <div className="smbzfs-table-wrap">
+                                    <div className="pf-v5-c-table pf-m-compact" role="grid" aria-label="Audit Log">
+                                        <div className="pf-v5-c-table__thead" role="rowgroup">
+                                            <div className="pf-v5-c-table__tr" role="row">
+                                                {['Time', 'User', 'Action', 'Object', 'Result', 'Command'].map(col => (
+                                                    <div key={col} role="columnheader" className="pf-v5-c-table__th">{col}</div>
+                                                ))}
+                                            </div>
+                                        </div>
+                                        <div className="pf-v5-c-table__tbody" role="rowgroup">
+                                            {shown.map((r, i) => (
+                                                <div key={`${r.time}-${i}`} className="pf-v5-c-table__tr" role="row">
+                                                    <div role="cell" className="pf-v5-c-table__td">{new Date(r.time).toLocaleString()}</div>
+                                                    <div role="cell" className="pf-v5-c-table__td">{r.user}</div>
+                                                    <div role="cell" className="pf-v5-c-table__td">{r.action}</div>
+                                                    <div role="cell" className="pf-v5-c-table__td">{r.object || '-'}</div>
+                                                    <div role="cell" className="pf-v5-c-table__td">
+                                                        <Label color={r.result === 'success' ? 'green' : 'red'}>
+                                                            {r.result}{r.exitCode !== undefined && r.exitCode !== 0 && ` (exit ${r.exitCode})`}
+                                                        </Label>
+                                                        {r.error && <div><small>{r.error}</small></div>}
+                                                    </div>
+                                                    <div role="cell" className="pf-v5-c-table__td"><code>smb-zfs {r.command.join(' ')}</code></div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+                    </CardBody>
+                </Card>
+            )}
+        </PageSection>
+    );
+};
+
+// #endregion
+
+// #region Backup & Restore
+interface BackupRestoreCardProps {
+    state: State;
+    onRefresh: () => void;
+}
+
+const BackupRestoreCard: React.FC<BackupRestoreCardProps> = ({ state, onRefresh }) => {
+    const [isRestoreOpen, setRestoreOpen] = useState(false);
+
+    const handleDownload = () => {
+        const backup = backupApi.create(state);
+        const stamp = backup.created.slice(0, 19).replace(/[:T]/g, '-');
+        downloadFile(`smb-zfs-backup-${backup.host}-${stamp}.json`, JSON.stringify(backup, null, 2), 'application/json');
+    };
+
+    return (
+        <Card style={{ marginTop: '1rem' }}>
+            <CardTitle>Backup &amp; Restore</CardTitle>
+            <CardBody>
+                <Content>
+                    <p>
+                        The backup contains the setup parameters, users with their group memberships, groups and shares.
+                        It does not contain passwords or any data.
+                    </p>
+                </Content>
+                <Button variant="secondary" onClick={handleDownload}>Download Backup</Button>{' '}
+                <Button variant="secondary" onClick={() => setRestoreOpen(true)}>Restore from Backup…</Button>
+                <RestoreBackupModal isOpen={isRestoreOpen} onClose={() => setRestoreOpen(false)} onSave={onRefresh} current={state} />
+            </CardBody>
+        </Card>
+    );
+};
+
+interface RestoreBackupModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: () => void;
+    current: State | null;
+}
+
+const RestoreBackupModal: React.FC<RestoreBackupModalProps> = ({ isOpen, onClose, onSave, current }) => {
+    const policy = usePasswordPolicy();
+    const [backup, setBackup] = useState<BackupFile | null>(null);
+    const [passwordMode, setPasswordMode] = useState<'generate' | 'common'>('generate');
+    const commonPassword = useValidation('', validatePassword);
+    const [generated, setGenerated] = useState<Record<string, string>>({});
+    const [resolutions, setResolutions] = useState<Record<string, 'skip' | 'update'>>({});
+    const [statuses, setStatuses] = useState<Record<string, PlanStepStatus>>({});
+    const [createdUsers, setCreatedUsers] = useState<string[]>([]);
+    const [running, setRunning] = useState(false);
+    const [finished, setFinished] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFile = (file: File | undefined) => {
+        if (!file) return;
+        setError(null);
+        setStatuses({});
+        setCreatedUsers([]);
+        setFinished(false);
+        file.text()
+                .then(text => {
+                    const parsed = backupApi.parse(text);
+                    setBackup(parsed);
+                    setResolutions({});
+                    // New accounts get passwords that their owners must replace; nothing is stored in the backup
+                    setGenerated(Object.fromEntries(Object.keys(parsed.state.users || {}).map(u => [u, generatePolicyPassword(policy)])));
+                })
+                .catch(err => {
+                    setBackup(null);
+                    setError(err.message);
+                });
+    };
+
+    const passwordFor = useCallback((user: string) => (passwordMode === 'common' ? commonPassword.value : generated[user] || ''),
+                                    [passwordMode, commonPassword.value, generated]);
+    const steps = useMemo(() => (backup ? backupApi.plan(backup.state, current, passwordFor) : []), [backup, current, passwordFor]);
+    const newUsers = steps.filter(s => s.kind === 'user' && !s.conflict).map(s => s.name);
+
+    const handleRestore = async () => {
+        if (passwordMode === 'common' && newUsers.length > 0) {
+            commonPassword.handleBlur();
+            if (!commonPassword.value || !commonPassword.isValid) return;
+        }
+        setRunning(true);
+        setStatuses({});
+        setCreatedUsers([]);
+        await runPlan(steps, resolutions, (key, status) => setStatuses(s => ({ ...s, [key]: status })),
+                      step => setCreatedUsers(c => [...c, step.name]));
+        setRunning(false);
+        setFinished(true);
+    };
+
+    // Refreshing the state re-renders the page, so wait until the temporary passwords had a chance to be saved
+    const handleClose = () => {
+        if (finished) onSave();
+        onClose();
+    };
+
+    const downloadCredentials = () => {
+        const rows = createdUsers.map(u => `${csvEscape(u)},${csvEscape(generated[u])}`);
+        downloadFile('smb-zfs-restored-passwords.csv', ['user,temporary_password', ...rows].join('\n'), 'text/csv');
+    };
+
+    return (
+        <Modal
+            variant={ModalVariant.large}
+            title="Restore from Backup"
+            isOpen={isOpen}
+            onClose={handleClose}
+        >
+            {error && <Alert variant="danger" title="Cannot use this backup">{error}</Alert>}
+            <Form>
+                <FormGroup label="Backup File" fieldId="restore-file">
+                    <input
+                        type="file"
+                        id="restore-file"
+                        accept="application/json,.json"
+                        className="pf-v5-c-form-control"
+                        onChange={(e) => handleFile(e.target.files?.[0])}
+                        disabled={running}
+                    />
+                    {backup && (
+                        <FormHelperText>
+                            <HelperText>
+                                <HelperTextItem>
+                                    Backup of {backup.host} from {new Date(backup.created).toLocaleString()} (format version {backup.version}).
+                                </HelperTextItem>
+                            </HelperText>
+                        </FormHelperText>
+                    )}
+                </FormGroup>
+                {backup && newUsers.length > 0 && (
+                    <FormGroup label="Passwords for New Users" fieldId="restore-passwords" role="radiogroup" isStack>
+                        <Radio
+                            id="restore-passwords-generate"
+                            name="restore-passwords"
+                            label="Generate a random temporary password per user (downloadable after the restore)"
+                            isChecked={passwordMode === 'generate'}
+                            onChange={() => setPasswordMode('generate')}
+                            isDisabled={running}
+                        />
+                        <Radio
+                            id="restore-passwords-common"
+                            name="restore-passwords"
+                            label="Use one temporary password for every user"
+                            isChecked={passwordMode === 'common'}
+                            onChange={() => setPasswordMode('common')}
+                            isDisabled={running}
+                        />
+                        {passwordMode === 'common' && (
+                            <TextInput
+                                type="password"
+                                id="restore-common-password"
+                                aria-label="Temporary password"
+                                value={commonPassword.value}
+                                onChange={(_event, value) => commonPassword.handleChange(value)}
+                                onBlur={() => commonPassword.handleBlur()}
+                                validated={commonPassword.error ? 'error' : 'default'}
+                                isDisabled={running}
+                            />
+                        )}
+                        {commonPassword.error && passwordMode === 'common' && (
+                            <HelperText>
+                                <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>{commonPassword.error}</HelperTextItem>
+                            </HelperText>
+                        )}
+                        <HelperText>
+                            <HelperTextItem>Passwords are not part of a backup; every restored user has to change the temporary password at the next logon.</HelperTextItem>
+                        </HelperText>
+                    </FormGroup>
+                )}
+            </Form>
+            {backup && (
+                <>
+                    <Title headingLevel="h3" style={{ marginTop: '1rem' }}>
+                        {finished ? 'Result' : 'Dry Run — nothing has been changed yet'}
+                    </Title>
+                    <PlanStepsTable
+                        steps={steps}
+                        statuses={statuses}
+                        resolutions={resolutions}
+                        onResolve={(key, resolution) => setResolutions(r => ({ ...r, [key]: resolution }))}
+                        isDisabled={running || finished}
+                    />
+                </>
+            )}
+            <div className="pf-v5-c-modal-box__footer">
+                {!finished && (
+                    <Button key="confirm" variant="primary" onClick={handleRestore} isDisabled={!backup || running}>
+                        {running ? <Spinner size="sm" /> : 'Restore'}
+                    </Button>
+                )}
+                {finished && passwordMode === 'generate' && createdUsers.length > 0 && (
+                    <Button key="credentials" variant="primary" onClick={downloadCredentials}>Download Temporary Passwords</Button>
+                )}
+                <Button key="cancel" variant="link" onClick={handleClose} isDisabled={running}>{finished ? 'Close' : 'Cancel'}</Button>
+            </div>
+        </Modal>
+    );
+};
+
+// #region Settings Tab
+const PasswordPolicyCard: React.FC = () => {
+    const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+    const [sambaMinLength, setSambaMinLength] = useState<number | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        passwordPolicyApi.load()
+                .then(({ sambaMinLength: samba, ...stored }) => {
+                    setPolicy(stored);
+                    setSambaMinLength(samba);
+                })
+                .catch(err => setError(err.message));
+    }, []);
+
+    const update = (changes: Partial<PasswordPolicy>) => {
+        setPolicy(p => ({ ...p, ...changes }));
+        setSaved(false);
+    };
+
+    const handleSave = () => {
+        setLoading(true);
+        setError(null);
+        passwordPolicyApi.save(policy)
+                .then(() => setSaved(true))
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    };
+
+    const checks: [Exclude<keyof PasswordPolicy, 'minLength' | 'useSambaPolicy'>, string][] = [
+        ['requireLowercase', 'Require a lowercase letter'],
+        ['requireUppercase', 'Require an uppercase letter'],
+        ['requireDigit', 'Require a digit'],
+        ['requireSymbol', 'Require a symbol'],
+        ['rejectUsername', 'Reject passwords containing the username'],
+        ['rejectCommon', 'Reject common passwords'],
+    ];
+
+    return (
+        <Card style={{ marginTop: '1rem' }}>
+            <CardTitle>Password Policy</CardTitle>
+            <CardBody>
+                {error && <Alert variant="danger" title="Password policy error">{error}</Alert>}
+                {saved && <Alert variant="success" isInline title="Password policy saved" />}
+                <Form>
+                    <FormGroup label="Minimum Length" fieldId="policy-min-length">
+                        <TextInput
+                            type="number"
+                            id="policy-min-length"
+                            min={1}
+                            value={String(policy.minLength)}
+                            onChange={(_event, value) => update({ minLength: Math.max(1, parseInt(value, 10) || 1) })}
+                        />
+                    </FormGroup>
+                    <FormGroup label="Rules" fieldId="policy-rules">
+                        {checks.map(([key, label]) => (
+                            <Checkbox
+                                key={key}
+                                id={`policy-${key}`}
+                                label={label}
+                                isChecked={policy[key]}
+                                onChange={(_event, checked) => update({ [key]: checked })}
+                            />
+                        ))}
+                        <Checkbox
+                            id="policy-samba"
+                            label={`Also enforce Samba's minimum password length${sambaMinLength !== null ? ` (currently ${sambaMinLength})` : ''}`}
+                            isChecked={policy.useSambaPolicy}
+                            onChange={(_event, checked) => update({ useSambaPolicy: checked })}
+                        />
+                    </FormGroup>
+                    <div>
+                        <Button variant="primary" onClick={handleSave} isDisabled={loading}>
+                            {loading ? <Spinner size="sm" /> : 'Save Policy'}
+                        </Button>
+                    </div>
+                </Form>
+            </CardBody>
+        </Card>
+    );
+};
+
+interface SettingsTabProps {
+    state: State;
+    onRefresh: () => void;
+}
+
+interface SettingChange {
+    label: string;
+    from: string;
+    to: string;
+}
+
+const SettingsTab: React.FC<SettingsTabProps> = ({ state, onRefresh }) => {
+    const initialSecondary = (state.secondary_pools || []).join(' ');
+    const serverName = useValidation(state.server_name || '', (value) => validateName(value, 'server_name'));
+    const workgroup = useValidation(state.workgroup || '', (value) => validateName(value, 'workgroup'));
+    const defaultHomeQuota = useValidation(state.default_home_quota || '', validateQuota);
+    const secondaryPools = useValidation(initialSecondary, () => ({ isValid: true }));
+
+    const [macos, setMacos] = useState(Boolean(state.macos_optimized));
+    const [pools, setPools] = useState<string[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        smbZfsApi.listPools()
+                .then(setPools)
+                .catch(() => setPools([]));
+    }, []);
+
+    // Secondary pools may not contain the primary pool
+    const poolOptions = pools.filter(p => p !== state.primary_pool);
+    const selectedSecondary = secondaryPools.value.split(' ').filter(Boolean);
+    const currentSecondary = state.secondary_pools || [];
+    const addedPools = selectedSecondary.filter(p => !currentSecondary.includes(p));
+    const removedPools = currentSecondary.filter(p => !selectedSecondary.includes(p));
+
+    const changes: SettingChange[] = [];
+    if (serverName.value !== (state.server_name || '')) {
+        changes.push({ label: 'Server Name', from: state.server_name || '-', to: serverName.value });
+    }
+    if (workgroup.value !== (state.workgroup || '')) {
+        changes.push({ label: 'Workgroup', from: state.workgroup || '-', to: workgroup.value });
+    }
+    if (macos !== Boolean(state.macos_optimized)) {
+        changes.push({ label: 'macOS Optimized', from: state.macos_optimized ? 'Yes' : 'No', to: macos ? 'Yes' : 'No' });
+    }
+    if (defaultHomeQuota.value !== (state.default_home_quota || '')) {
+        changes.push({ label: 'Default Home Quota', from: state.default_home_quota || 'None', to: defaultHomeQuota.value || 'None' });
+    }
+    if (addedPools.length > 0 || removedPools.length > 0) {
+        changes.push({ label: 'Secondary Pools', from: currentSecondary.join(', ') || 'None', to: selectedSecondary.join(', ') || 'None' });
+    }
+
+    const isFormValid = () => {
+        return serverName.isValid &&
+               workgroup.isValid &&
+               defaultHomeQuota.isValid &&
+               serverName.value &&
+               workgroup.value;
+    };
+
+    const handleReset = () => {
+        serverName.handleChange(state.server_name || '');
+        workgroup.handleChange(state.workgroup || '');
+        defaultHomeQuota.handleChange(state.default_home_quota || '');
+        secondaryPools.handleChange(initialSecondary);
+        setMacos(Boolean(state.macos_optimized));
+        setError(null);
+    };
+
+    const handleSave = () => {
+        serverName.handleBlur();
+        workgroup.handleBlur();
+        defaultHomeQuota.handleBlur();
+
+        if (!isFormValid() || changes.length === 0) return;
+
+        setLoading(true);
+        setError(null);
+        smbZfsApi.modifySetup({
+            ...(serverName.value !== (state.server_name || '') ? { serverName: serverName.value } : {}),
+            ...(workgroup.value !== (state.workgroup || '') ? { workgroup: workgroup.value } : {}),
+            ...(macos !== Boolean(state.macos_optimized) ? { macos } : {}),
+            ...(defaultHomeQuota.value !== (state.default_home_quota || '') ? { defaultHomeQuota: defaultHomeQuota.value || 'none' } : {}),
+            addSecondaryPools: addedPools,
+            removeSecondaryPools: removedPools,
+        })
+                .then(() => onRefresh())
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    };
+
+    return (
+        <PageSection>
+            <Card>
+                <CardTitle>Server Settings</CardTitle>
+                <CardBody>
+                    {error && <Alert variant="danger" title="Failed to update settings">{error}</Alert>}
+                    <Form>
+                        <FormGroup label="Primary ZFS Pool" fieldId="settings-primary-pool">
+                            <Content>
+                                <p>{state.primary_pool}</p>
+                            </Content>
+                        </FormGroup>
+
+                        <FormGroup label="Secondary ZFS Pools" fieldId="settings-secondary-pools">
+                            <select
+                                id="settings-secondary-pools"
+                                multiple
+                                className="pf-v5-c-form-control"
+                                value={selectedSecondary}
+                                onChange={(e) => {
+                                    const selected = Array.from(e.target.selectedOptions).map(o => o.value);
+                                    secondaryPools.handleChange(selected.join(" "));
+                                }}
+                                aria-label="settings-secondary-pools-multiselect"
+                            >
+                                {/* Keep configured pools selectable even if 'list pools' does not report them */}
+                                {[...new Set([...poolOptions, ...currentSecondary])].map(p => <option key={p} value={p}>{p}</option>)}
+                            </select>
+                            <FormHelperText>
+                                <HelperText>
+                                    <HelperTextItem>
+                                        Hold Ctrl/Cmd to select multiple pools.
+                                    </HelperTextItem>
+                                </HelperText>
+                            </FormHelperText>
+                        </FormGroup>
+
+                        <FormGroup label="Server Name" isRequired fieldId="settings-server-name">
+                            <TextInput
+                                isRequired
+                                type="text"
+                                id="settings-server-name"
+                                value={serverName.value}
+                                onChange={(_event, value) => serverName.handleChange(value)}
+                                onBlur={() => serverName.handleBlur()}
+                                validated={serverName.error ? 'error' : 'default'}
+                            />
+                            {serverName.error && (
                                 <FormHelperText>
                                     <HelperText>
                                         <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
-                                            {validUsers.error}
+                                            {serverName.error}
                                         </HelperTextItem>
                                     </HelperText>
                                 </FormHelperText>
                             )}
                         </FormGroup>
-                    </GridItem>
-                    <GridItem span={6}>
-                        <FormGroup label="Quota" fieldId="share-quota">
+
+                        <FormGroup label="Workgroup" isRequired fieldId="settings-workgroup">
                             <TextInput
+                                isRequired
                                 type="text"
-                                id="share-quota"
-                                placeholder="e.g., 100G"
-                                value={quota.value}
-                                onChange={(_event, value) => quota.handleChange(value)}
-                                onBlur={() => quota.handleBlur()}
-                                validated={quota.error ? 'error' : 'default'}
+                                id="settings-workgroup"
+                                value={workgroup.value}
+                                onChange={(_event, value) => workgroup.handleChange(value)}
+                                onBlur={() => workgroup.handleBlur()}
+                                validated={workgroup.error ? 'error' : 'default'}
                             />
-                            {quota.error && (
+                            {workgroup.error && (
                                 <FormHelperText>
                                     <HelperText>
                                         <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
-                                            {quota.error}
+                                            {workgroup.error}
                                         </HelperTextItem>
                                     </HelperText>
                                 </FormHelperText>
                             )}
                         </FormGroup>
-                    </GridItem>
-                    <GridItem span={6}>
-                        <FormGroup fieldId="share-options">
-                            <Checkbox
-                                label="Make share read-only"
-                                id="share-readonly"
-                                isChecked={readonly}
-                                onChange={(_event, checked) => setReadonly(checked)}
+
+                        <FormGroup label="Default Home Quota" fieldId="settings-default-home-quota">
+                            <TextInput
+                                type="text"
+                                id="settings-default-home-quota"
+                                value={defaultHomeQuota.value}
+                                onChange={(_event, value) => defaultHomeQuota.handleChange(value)}
+                                onBlur={() => defaultHomeQuota.handleBlur()}
+                                validated={defaultHomeQuota.error ? 'error' : 'default'}
                             />
+                            <FormHelperText>
+                                <HelperText>
+                                    {defaultHomeQuota.error
+                                        ? (
+                                            <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
+                                                {defaultHomeQuota.error}
+                                            </HelperTextItem>
+                                        )
+                                        : (
+                                            <HelperTextItem>
+                                                Applies to homes created from now on. Leave empty to remove the default.
+                                            </HelperTextItem>
+                                        )}
+                                </HelperText>
+                            </FormHelperText>
+                        </FormGroup>
+
+                        <FormGroup fieldId="settings-macos">
                             <Checkbox
-                                label="Hide share from network browse"
-                                id="share-no-browse"
-                                isChecked={noBrowse}
-                                onChange={(_event, checked) => setNoBrowse(checked)}
+                                label="Enable macOS compatibility optimizations"
+                                id="settings-macos"
+                                isChecked={macos}
+                                onChange={(_event, checked) => setMacos(checked)}
                             />
                         </FormGroup>
-                    </GridItem>
-                </Grid>
-            </Form>
-            <div className="pf-v5-c-modal-box__footer">
-                <Button
-                    key="save"
-                    variant="primary"
-                    onClick={handleSave}
-                    isDisabled={!!loading || !isFormValid()}
-                >
-                    {loading ? <Spinner size="sm" /> : 'Save'}
-                </Button>
-                <Button key="cancel" variant="link" onClick={onClose}>Cancel</Button>
-            </div>
-        </Modal>
+
+                        <FormGroup label="Pending Changes" fieldId="settings-changes">
+                            {changes.length === 0
+                                ? <Content><p>No changes.</p></Content>
+                                : (
+                                    <Content>
+                                        <ul>
+                                            {changes.map(c => (
+                                                <li key={c.label}>
+                                                    <strong>{c.label}:</strong> {c.from} &rarr; {c.to}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </Content>
+                                )}
+                        </FormGroup>
+
+                        <div>
+                            <Button
+                                variant="primary"
+                                onClick={handleSave}
+                                isDisabled={loading || !isFormValid() || changes.length === 0 || !smbZfsApi.supports('modifySetup')}
+                            >
+                                {loading ? <Spinner size="sm" /> : 'Apply Changes'}
+                            </Button>
+                            <Button variant="link" onClick={handleReset} isDisabled={loading || changes.length === 0}>
+                                Reset
+                            </Button>
+                        </div>
+                    </Form>
+                </CardBody>
+            </Card>
+            <PasswordPolicyCard />
+            <BackupRestoreCard state={state} onRefresh={onRefresh} />
+        </PageSection>
     );
 };
 
-interface ModifyShareModalProps {
-    isOpen: boolean;
-    onClose: () => void;
-    onSave: () => void;
-    share: string;
-    shareData: ShareData;
-    pools: string[];
+// #region Self-Service Tab (for non-root)
+interface SelfServiceTabProps {
+    user: string;
+    state: State;
 }
 
-const ModifyShareModal: React.FC<ModifyShareModalProps> = ({ isOpen, onClose, onSave, share, shareData, pools }) => {
-    const comment = useValidation(shareData.smb_config.comment || '', () => ({ isValid: true }));
-    const quota = useValidation(shareData.dataset.quota || '', validateQuota);
-
+const SelfServiceTab: React.FC<SelfServiceTabProps> = ({ user, state }) => {
+    const userData = state.users?.[user];
+    const dataset = userData?.dataset?.name;
+    const [usage, setUsage] = useState<DatasetUsage | null>(null);
+    const [snapshots, setSnapshots] = useState<SnapshotData[]>([]);
+    const [browsing, setBrowsing] = useState<SnapshotData | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    const isFormValid = () => {
-        return comment.isValid && quota.isValid;
-    };
-
-    const handleSave = () => {
-        quota.handleBlur();
-
-        if (!isFormValid()) return;
-
+    useEffect(() => {
+        if (!dataset) return;
         setLoading(true);
-        setError(null);
-        const command = ['modify', 'share', share, '--comment', comment.value, '--quota', quota.value || 'none'];
+        Promise.all([zfsApi.getUsage([dataset]), zfsApi.listSnapshots(dataset)])
+                .then(([usageByDataset, list]) => {
+                    setUsage(usageByDataset[dataset] || null);
+                    setSnapshots(list);
+                    setError(null);
+                })
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    }, [dataset]);
 
-        smbZfsApi.run(command)
-            .then(() => { onSave(); onClose(); })
-            .catch(err => setError(err.message))
-            .finally(() => setLoading(false));
-    };
+    if (!userData) {
+        return (
+            <PageSection>
+                <EmptyState>
+                    <Title headingLevel="h4" size="lg">No Samba Account</Title>
+                    <EmptyStateBody>The user {user} is not managed by smb-zfs.</EmptyStateBody>
+                </EmptyState>
+            </PageSection>
+        );
+    }
+
+    const shares = Object.entries(state.shares || {}).flatMap(([name, data]) => {
+        const grant = getShareAccessGrant(user, data, state);
+        return grant ? [{ name, data, grant }] : [];
+    });
+    const canBrowse = !!usage?.mountpoint && usage.mountpoint.startsWith('/');
 
     return (
-        <Modal
-            variant={ModalVariant.medium}
-            title={`Modify Share ${share}`}
-            isOpen={isOpen}
-            onClose={onClose}
-        >
-            {error && <Alert variant="danger" title="Failed to modify share">{error}</Alert>}
-            <Form>
-                <FormGroup label="Comment" fieldId="mod-share-comment">
-                    <TextInput
-                        type="text"
-                        id="mod-share-comment"
-                        value={comment.value}
-                        onChange={(_event, value) => comment.handleChange(value)}
-                    />
-                </FormGroup>
-                <FormGroup label="Quota" fieldId="mod-share-quota">
-                    <TextInput
-                        type="text"
-                        id="mod-share-quota"
-                        value={quota.value}
-                        onChange={(_event, value) => quota.handleChange(value)}
-                        onBlur={() => quota.handleBlur()}
-                        validated={quota.error ? 'error' : 'default'}
-                    />
-                    {quota.error && (
-                        <FormHelperText>
-                            <HelperText>
-                                <HelperTextItem variant="error" icon={<ExclamationTriangleIcon />}>
-                                    {quota.error}
-                                </HelperTextItem>
-                            </HelperText>
-                        </FormHelperText>
-                    )}
-                </FormGroup>
-                <Content>
-                    <p><small>Note: This is a simplified modification dialog. A full implementation would include all modifiable properties.</small></p>
-                </Content>
-            </Form>
-            <div className="pf-v5-c-modal-box__footer">
-                <Button key="save" variant="primary" onClick={handleSave} isDisabled={!!loading || !isFormValid()}>
-                    {loading ? <Spinner size="sm" /> : 'Save'}
-                </Button>
-                <Button key="cancel" variant="link" onClick={onClose}>Cancel</Button>
-            </div>
-        </Modal>
+        <PageSection>
+            {error && <Alert variant="danger" title="Failed to load your home dataset">{error}</Alert>}
+            <Grid hasGutter>
+                <GridItem span={6}>
+                    <Card>
+                        <CardTitle>Home Directory</CardTitle>
+                        <CardBody>
+                            {!dataset && <p>You do not have a home dataset.</p>}
+                            {dataset && loading && <Spinner size="md" />}
+                            {dataset && usage && (
+                                <>
+                                    <p><strong>Dataset:</strong> {dataset}</p>
+                                    <p><strong>Location:</strong> {usage.mountpoint}</p>
+                                    <UsageBar
+                                        used={usage.used}
+                                        limit={usage.quota || usage.used + usage.available}
+                                        title={usage.quota ? 'Usage against quota' : 'Usage (no quota)'}
+                                    />
+                                </>
+                            )}
+                        </CardBody>
+                    </Card>
+                </GridItem>
+                <GridItem span={6}>
+                    <Card>
+                        <CardTitle>Groups</CardTitle>
+                        <CardBody>
+                            {userData.groups.length > 0
+                                ? <ul>{userData.groups.map(g => <li key={g}>{g}{state.groups?.[g]?.description ? ` – ${state.groups[g].description}` : ''}</li>)}</ul>
+                                : <p>You are not a member of any group.</p>}
+                        </CardBody>
+                    </Card>
+                </GridItem>
+                <GridItem span={12}>
+                    <Card>
+                        <CardTitle>Shares You Can Access ({shares.length})</CardTitle>
+                        <CardBody>
+                            {shares.length === 0
+                                ? <p>No shares are available to you.</p>
+                                : (
+                                    <ul>
+                                        {shares.map(({ name, data, grant }) => (
+                                            <li key={name}>
+                                                <strong>{name}</strong>
+                                                {data.smb_config.comment ? ` – ${data.smb_config.comment}` : ''}
+                                                {' '}({data.smb_config.read_only ? 'read-only' : 'read/write'}, {describeAccessGrant(grant)})
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                        </CardBody>
+                    </Card>
+                </GridItem>
+                {dataset && (
+                    <GridItem span={12}>
+                        <Card>
+                            <CardTitle>Snapshots of Your Home</CardTitle>
+                            <CardBody>
+                                <Content>
+                                    <p>Browse a snapshot to restore files you have changed or deleted.</p>
+                                </Content>
+                                {loading
+                                    ? <Spinner size="md" />
+                                    : <SnapshotsTable snapshots={snapshots} isReadOnly {...(canBrowse ? { onBrowse: setBrowsing } : {})} />}
+                            </CardBody>
+                        </Card>
+                    </GridItem>
+                )}
+            </Grid>
+            {browsing && usage && (
+                <SnapshotBrowserModal
+                    snapshot={browsing}
+                    mountpoint={usage.mountpoint}
+                    onClose={() => setBrowsing(null)}
+                />
+            )}
+        </PageSection>
     );
 };
 
-interface DeleteShareModalProps {
-    isOpen: boolean;
+interface SnapshotBrowserModalProps {
+    snapshot: SnapshotData;
+    mountpoint: string;
     onClose: () => void;
-    onSave: () => void;
-    share: string;
 }
 
-const DeleteShareModal: React.FC<DeleteShareModalProps> = ({ isOpen, onClose, onSave, share }) => {
-    const [deleteData, setDeleteData] = useState(false);
+const SnapshotBrowserModal: React.FC<SnapshotBrowserModalProps> = ({ snapshot, mountpoint, onClose }) => {
+    const [relPath, setRelPath] = useState('');
+    const [entries, setEntries] = useState<DirectoryEntry[]>([]);
+    const [pendingReplace, setPendingReplace] = useState<string | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
 
-    const handleConfirm = () => {
+    useEffect(() => {
         setLoading(true);
+        zfsApi.listDirectory(zfsApi.snapshotPath(mountpoint, snapshot, relPath))
+                .then(list => {
+                    setEntries(list);
+                    setError(null);
+                })
+                .catch(err => setError(err.message))
+                .finally(() => setLoading(false));
+    }, [mountpoint, snapshot, relPath]);
+
+    const restore = (rel: string, asCopy: boolean) => {
+        const target = `${mountpoint}/${rel}${asCopy ? `.restored-${snapshot.snapshot}` : ''}`;
+        setPendingReplace(null);
         setError(null);
-        const command = ['delete', 'share', share, '--yes'];
-        if (deleteData) command.push('--delete-data');
-
-        smbZfsApi.run(command)
-            .then(() => { onSave(); onClose(); })
-            .catch(err => setError(err.message))
-            .finally(() => setLoading(false));
+        setMessage(null);
+        zfsApi.restoreFromSnapshot(zfsApi.snapshotPath(mountpoint, snapshot, rel), target)
+                .then(() => setMessage(`Restored ${rel} to ${target}`))
+                .catch(err => setError(err.message));
     };
 
+    const childPath = (name: string) => [relPath, name].filter(Boolean).join('/');
+    const parentPath = relPath.split('/').slice(0, -1)
+            .join('/');
+
     return (
         <Modal
-            variant={ModalVariant.small}
-            title={`Delete Share ${share}`}
-            isOpen={isOpen}
+            variant={ModalVariant.large}
+            title={`Browse Snapshot ${snapshot.snapshot}`}
+            isOpen
             onClose={onClose}
         >
-            {error && <Alert variant="danger" title="Failed to delete share">{error}</Alert>}
-            <p>Are you sure you want to delete share <strong>{share}</strong>?</p>
-            <Checkbox
-                label="Permanently delete the share's ZFS dataset."
-                id={`delete-data-share-${share}`}
-                isChecked={deleteData}
-                onChange={(_event, checked) => setDeleteData(checked)}
-            />
+            {error && <Alert variant="danger" title="Operation failed">{error}</Alert>}
+            {message && <Alert variant="success" title={message} />}
+            {pendingReplace && (
+                <Alert
+                    variant="warning"
+                    isInline
+                    title={`Replace the current version of ${pendingReplace}?`}
+                    actionLinks={
+                        <>
+                            <Button variant="link" isInline onClick={() => restore(pendingReplace, false)}>Replace</Button>
+                            <Button variant="link" isInline onClick={() => setPendingReplace(null)}>Cancel</Button>
+                        </>
+                    }
+                >
+                    Changes made after {new Date(snapshot.creation * 1000).toLocaleString()} will be overwritten.
+                </Alert>
+            )}
+            <Content>
+                <p><strong>Folder:</strong> /{relPath}</p>
+            </Content>
+            {loading
+                ? <Spinner />
+                : (
+                    <div className="pf-v5-c-table pf-m-grid-md" role="grid" aria-label="Snapshot Files Table">
+                        <div className="pf-v5-c-table__thead" role="rowgroup">
+                            <div className="pf-v5-c-table__tr" role="row">
+                                {['Name', 'Size', 'Modified', ''].map((col, i) => (
+                                    <div key={i} role="columnheader" className="pf-v5-c-table__th">{col}</div>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="pf-v5-c-table__tbody" role="rowgroup">
+                            {relPath && (
+                                <div className="pf-v5-c-table__tr" role="row">
+                                    <div role="cell" className="pf-v5-c-table__td">
+                                        <Button variant="link" isInline onClick={() => setRelPath(parentPath)}>..</Button>
+                                    </div>
+                                </div>
+                            )}
+                            {entries.map(entry => (
+                                <div key={entry.name} className="pf-v5-c-table__tr" role="row">
+                                    <div role="cell" className="pf-v5-c-table__td">
+                                        {entry.type === 'd'
+                                            ? <Button variant="link" isInline onClick={() => setRelPath(childPath(entry.name))}>{entry.name}/</Button>
+                                            : entry.name}
+                                    </div>
+                                    <div role="cell" className="pf-v5-c-table__td">{entry.type === 'd' ? '-' : formatBytes(entry.size)}</div>
+                                    <div role="cell" className="pf-v5-c-table__td">{new Date(entry.mtime * 1000).toLocaleString()}</div>
+                                    <div role="cell" className="pf-v5-c-table__td">
+                                        <div className="pf-v5-c-dropdown">
+                                            <button className="pf-v5-c-button pf-m-secondary" type="button" onClick={() => restore(childPath(entry.name), true)}>Restore as Copy</button>
+                                            <button className="pf-v5-c-button pf-m-danger" type="button" onClick={() => setPendingReplace(childPath(entry.name))}>Replace Current</button>
+                                        </div>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
             <div className="pf-v5-c-modal-box__footer">
-                <Button key="confirm" variant="danger" onClick={handleConfirm} isDisabled={!!loading}>
-                    {loading ? <Spinner size="sm" /> : 'Delete'}
-                </Button>
-                <Button key="cancel" variant="link" onClick={onClose}>Cancel</Button>
+                <Button key="close" variant="link" onClick={onClose}>Close</Button>
             </div>
         </Modal>
     );
@@ -2028,11 +7156,21 @@ const validateQuota = (quota: string): ValidationResult => {
     return { isValid: true };
 };
 
-const validatePassword = (password: string, confirm?: string): ValidationResult => {
+const validatePassword = (
+    password: string,
+    confirm?: string,
+    policy?: EffectivePasswordPolicy | null,
+    username?: string
+): ValidationResult => {
     if (!password) {
         return { isValid: false, error: "Password is required." };
     }
 
+    const failures = policy ? checkPasswordPolicy(password, policy, username) : [];
+    if (failures.length > 0) {
+        return { isValid: false, error: failures[0] };
+    }
+
     if (confirm !== undefined && password !== confirm) {
         return { isValid: false, error: "Passwords do not match." };
     }
@@ -2076,6 +7214,36 @@ const validateUserList = (users: string): ValidationResult => {
     return { isValid: true };
 };
 
+const validateSnapshotName = (name: string): ValidationResult => {
+    if (!name) {
+        return { isValid: false, error: "Snapshot name is required." };
+    }
+    if (!/^[A-Za-z0-9][A-Za-z0-9_.:-]{0,199}$/.test(name)) {
+        return {
+            isValid: false,
+            error: "Snapshot name must start with a letter or number and may only contain letters, numbers, '_', '.', ':' and '-'."
+        };
+    }
+    return { isValid: true };
+};
+
+const validateHoldTag = (tag: string): ValidationResult => {
+    if (!tag) {
+        return { isValid: false, error: "Hold tag is required." };
+    }
+    if (/\s/.test(tag)) {
+        return { isValid: false, error: "Hold tag must not contain whitespace." };
+    }
+    return { isValid: true };
+};
+
+const validateKeepCount = (value: string): ValidationResult => {
+    if (!/^\d+$/.test(value) || Number(value) < 1 || Number(value) > 1000) {
+        return { isValid: false, error: "Keep count must be a whole number between 1 and 1000." };
+    }
+    return { isValid: true };
+};
+
 const validateDatasetPath = (path: string): ValidationResult => {
     if (!path) {
         return { isValid: false, error: "Dataset path is required." };
@@ -2090,7 +7258,256 @@ const validateDatasetPath = (path: string): ValidationResult => {
     return { isValid: true };
 };
 
+// Formatting utilities
+const PASSWORD_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789!#%+-=?@_';
+
+const generatePassword = (length = 16): string => {
+    const bytes = new Uint32Array(length);
+    window.crypto.getRandomValues(bytes);
+    return Array.from(bytes, b => PASSWORD_ALPHABET[b % PASSWORD_ALPHABET.length]).join('');
+};
+
+const COMMON_PASSWORDS = [
+    'password', 'passw0rd', 'letmein', 'welcome', 'admin', 'administrator', 'changeme', 'secret', 'samba',
+    'qwerty', 'qwertz', 'azerty', 'abc123', '123456', '12345678', '123456789', '111111', 'iloveyou',
+    'monkey', 'dragon', 'football', 'baseball', 'sunshine', 'princess', 'master', 'trustno1',
+];
+
+// Also catches dictionary words dressed up with leading or trailing digits and symbols ("Password1!")
+const isCommonPassword = (password: string): boolean => {
+    const lower = password.toLowerCase();
+    return COMMON_PASSWORDS.includes(lower) || COMMON_PASSWORDS.includes(lower.replace(/^[^a-z]+|[^a-z]+$/g, ''));
+};
+
+const effectiveMinLength = (policy: EffectivePasswordPolicy): number =>
+    Math.max(policy.minLength, policy.sambaMinLength ?? 0);
+
+// Every rule of the policy the password breaks, in the order they are listed to the user
+const checkPasswordPolicy = (password: string, policy: EffectivePasswordPolicy, username = ''): string[] => {
+    const failures: string[] = [];
+    const minLength = effectiveMinLength(policy);
+    if (password.length < minLength) failures.push(`Password must be at least ${minLength} characters long.`);
+    if (policy.requireLowercase && !/[a-z]/.test(password)) failures.push("Password must contain a lowercase letter.");
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) failures.push("Password must contain an uppercase letter.");
+    if (policy.requireDigit && !/[0-9]/.test(password)) failures.push("Password must contain a digit.");
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) failures.push("Password must contain a symbol.");
+    if (policy.rejectUsername && username.length >= 3 && password.toLowerCase().includes(username.toLowerCase())) {
+        failures.push("Password must not contain the username.");
+    }
+    if (policy.rejectCommon && isCommonPassword(password)) failures.push("Password is too common.");
+    return failures;
+};
+
+const describePasswordPolicy = (policy: EffectivePasswordPolicy): string => {
+    const classes = [
+        policy.requireLowercase && 'a lowercase letter',
+        policy.requireUppercase && 'an uppercase letter',
+        policy.requireDigit && 'a digit',
+        policy.requireSymbol && 'a symbol',
+    ].filter(Boolean);
+    const last = classes.pop();
+    const required = last ? `, including ${classes.length > 0 ? `${classes.join(', ')} and ${last}` : last}` : '';
+    return `At least ${effectiveMinLength(policy)} characters${required}.`;
+};
+
+const PASSWORD_CHARACTER_CLASSES: [RegExp, number][] = [[/[a-z]/, 26], [/[A-Z]/, 26], [/[0-9]/, 10], [/[^A-Za-z0-9]/, 33]];
+const PASSWORD_STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'];
+
+// Rough entropy estimate: length (discounting repeated characters) times the bits of the character
+// pool; dictionary words and passwords containing the username are always "very weak"
+const passwordStrength = (password: string, username = ''): { score: number; label: string } => {
+    const pool = PASSWORD_CHARACTER_CLASSES.reduce((n, [pattern, size]) => (pattern.test(password) ? n + size : n), 0);
+    const bits = pool ? Math.min(password.length, new Set(password).size * 2) * Math.log2(pool) : 0;
+    const guessable = isCommonPassword(password) ||
+        (username.length >= 3 && password.toLowerCase().includes(username.toLowerCase()));
+    const score = guessable ? 0 : [28, 36, 60, 80].filter(threshold => bits >= threshold).length;
+    return { score, label: PASSWORD_STRENGTH_LABELS[score] };
+};
+
+// PASSWORD_ALPHABET covers every character class, so a retry is rarely needed
+const generatePolicyPassword = (policy: EffectivePasswordPolicy | null): string => {
+    const length = Math.max(16, policy ? effectiveMinLength(policy) : 0);
+    const acceptable = (password: string) => !policy || checkPasswordPolicy(password, policy).length === 0;
+    let password = generatePassword(length);
+    while (!acceptable(password)) password = generatePassword(length);
+    return password;
+};
+
+// Offers generated content (backups, credential sheets, exports) as a browser download
+const downloadFile = (filename: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const csvEscape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Minimal RFC 4180 reader: quoted fields may contain commas, newlines and doubled quotes
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (c === '"') {
+                quoted = false;
+            } else {
+                field += c;
+            }
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === ',') {
+            row.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+    if (field || row.length > 0) rows.push([...row, field]);
+    return rows.filter(r => r.some(f => f.trim()));
+};
+
+const formatBytes = (bytes: number): string => {
+    if (!Number.isFinite(bytes) || bytes <= 0) return '0 B';
+    const units = ['B', 'K', 'M', 'G', 'T', 'P', 'E'];
+    const exp = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+    const value = bytes / Math.pow(1024, exp);
+    return `${value.toFixed(exp === 0 || value >= 100 ? 0 : 1)} ${units[exp]}`;
+};
+
+const usageSeverity = (percent: number): 'danger' | 'warning' | undefined => {
+    if (percent >= 95) return 'danger';
+    if (percent >= 80) return 'warning';
+    return undefined;
+};
+
+// Parses ZFS/smb-zfs size strings such as "10G" or "1.5T" into bytes; "none" and empty mean no limit
+const parseSize = (size: string): number => {
+    const m = size.trim().match(/^(\d+(?:\.\d+)?)\s*([KMGTPE]?)i?B?$/i);
+    if (!m) return 0;
+    return Math.round(Number(m[1]) * Math.pow(1024, 'BKMGTPE'.indexOf(m[2].toUpperCase() || 'B')));
+};
+
+// Fraction of the quota in use; datasets without a quota are measured against the space left in the pool
+const usageLimit = (usage: DatasetUsage): number => usage.quota || usage.used + usage.available;
+const usageRatio = (usage?: DatasetUsage): number => (usage && usageLimit(usage) ? usage.used / usageLimit(usage) : -1);
+
+// Labels the datasets that already back a share or a home directory
+const datasetMarkers = (state: State): Record<string, string> => {
+    const markers: Record<string, string> = {};
+    Object.entries(state.users || {}).forEach(([name, data]) => {
+        if (data.dataset) markers[data.dataset.name] = `home: ${name}`;
+    });
+    Object.entries(state.shares || {}).forEach(([name, data]) => {
+        markers[data.dataset.name] = `share: ${name}`;
+    });
+    return markers;
+};
+
+// Access helpers
+const isGroupMember = (user: string, group: string, state: State): boolean =>
+    Boolean(state.groups?.[group]?.members.includes(user) || state.users?.[user]?.groups.includes(group));
+
+// Resolves why a user passes a share's valid users list, or null when they do not
+const getShareAccessGrant = (user: string, share: ShareData, state: State): ShareAccessGrant | null => {
+    const entries = (share.smb_config.valid_users || '').split(/[\s,]+/).filter(Boolean);
+    if (entries.length === 0) return { everyone: true, direct: false, groups: [] };
+
+    const direct = entries.includes(user);
+    const groups = entries
+            .filter(e => /^[@+&]/.test(e))
+            .map(e => e.replace(/^[@+&]+/, ''))
+            .filter(g => isGroupMember(user, g, state));
+    return direct || groups.length > 0 ? { everyone: false, direct, groups } : null;
+};
+
+// Combines the Samba view (valid users, read only) with the permission bits of the share
+// directory; the lower of both wins. Directories need r+x to read and w+x to write.
+const computeEffectiveAccess = (user: string, share: ShareData, state: State): EffectiveAccess => {
+    const grant = getShareAccessGrant(user, share, state);
+    if (!grant) {
+        return { level: 'none', reasons: [`Not in valid users (${share.smb_config.valid_users})`] };
+    }
+    const reasons = [`Samba: ${describeAccessGrant(grant)}`];
+    const sambaLevel: AccessLevel = share.smb_config.read_only ? 'read' : 'write';
+    reasons.push(share.smb_config.read_only ? 'Samba: share is read-only' : 'Samba: share is writable');
+
+    const perms = (share.system.permissions || '').slice(-3);
+    let bits = 7;
+    if (/^[0-7]{3}$/.test(perms)) {
+        const [ownerBits, groupBits, otherBits] = Array.from(perms).map(Number);
+        if (share.system.owner === user) {
+            bits = ownerBits;
+            reasons.push(`Filesystem: owner of the directory (${perms.charAt(0)})`);
+        } else if (isGroupMember(user, share.system.group, state)) {
+            bits = groupBits;
+            reasons.push(`Filesystem: member of owning group ${share.system.group} (${perms.charAt(1)})`);
+        } else {
+            bits = otherBits;
+            reasons.push(`Filesystem: neither owner ${share.system.owner} nor in group ${share.system.group}, other permissions apply (${perms.charAt(2)})`);
+        }
+    } else {
+        reasons.push('Filesystem: permissions unknown, assuming full access');
+    }
+    const canEnter = (bits & 1) !== 0;
+    const fsLevel: AccessLevel = canEnter && (bits & 2) ? 'write' : canEnter && (bits & 4) ? 'read' : 'none';
+
+    const order: AccessLevel[] = ['none', 'read', 'write'];
+    const level = order[Math.min(order.indexOf(sambaLevel), order.indexOf(fsLevel))];
+    if (level !== sambaLevel) reasons.push(`Limited to ${level} by directory permissions`);
+    return { level, reasons };
+};
+
+const describeAccessGrant = (grant: ShareAccessGrant): string => {
+    if (grant.everyone) return 'open to all users';
+    const reasons = [];
+    if (grant.direct) reasons.push('listed by name');
+    if (grant.groups.length > 0) reasons.push(`via ${grant.groups.map(g => `@${g}`).join(', ')}`);
+    return reasons.join(' and ');
+};
+
+// Loads ZFS space accounting for the given datasets whenever the list changes
+const useDatasetUsage = (datasets: string[]): Record<string, DatasetUsage> => {
+    const [usage, setUsage] = useState<Record<string, DatasetUsage>>({});
+    const key = datasets.join('\n');
+
+    useEffect(() => {
+        zfsApi.getUsage(key ? key.split('\n') : [])
+                .then(setUsage)
+                .catch(() => setUsage({}));
+    }, [key]);
+
+    return usage;
+};
+
 // Validation state hook
+// Null until loaded or when the policy cannot be read; only the basic checks apply then
+const usePasswordPolicy = (): EffectivePasswordPolicy | null => {
+    const [policy, setPolicy] = useState<EffectivePasswordPolicy | null>(null);
+
+    useEffect(() => {
+        passwordPolicyApi.load()
+                .then(setPolicy)
+                .catch(() => setPolicy(null));
+    }, []);
+
+    return policy;
+};
+
 const useValidation = (initialValue = '', validator: (value: string, ...args: any[]) => ValidationResult) => {
     const [value, setValue] = useState(initialValue);
     const [validation, setValidation] = useState<ValidationResult>({ isValid: true });
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import cockpit from "cockpit";
 
 /**
@@ -9,7 +9,7 @@ import cockpit from "cockpit";
  *
  * NOTE: We derive options from the current state when possible (users/groups from get-state).
  * For pools we call "smb-zfs list pools".
- * For datasets we accept a controlled list via props to keep UX sane (datasets can be huge).
+ * Datasets are browsed lazily, one level of one pool at a time, because pools can hold thousands.
  */
 
 export interface Option {
@@ -184,26 +184,217 @@ export const StringListSelect: React.FC<StringListSelectProps> = ({
   );
 };
 
-export interface DatasetSelectProps extends BaseSelectProps {
-  // Provide datasets explicitly to avoid extremely expensive full-system listing.
-  // Expected format: ["pool/ds", "pool/ds/sub", ...]
-  datasets: string[];
+const DATASET_PAGE_SIZE = 100;
+const DATASET_NAME_RE = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+// Lists only the direct children of a dataset so large pools are loaded one level at a time
+const listChildDatasets = (parent: string): Promise<string[]> =>
+  cockpit
+    .spawn(["zfs", "list", "-H", "-o", "name", "-t", "filesystem", "-d", "1", "-s", "name", parent], { err: "message" })
+    .then((output: string) =>
+      output
+        .split(/\r?\n/)
+        .map((l) => l.trim())
+        .filter((l) => l && l !== parent)
+    );
+
+export interface DatasetBrowserProps {
+  id: string;
+  pool: string;
+  value: string; // dataset path relative to the pool, e.g. "data/projects"
+  onChange: (value: string) => void;
+  // Full dataset names that are already in use, mapped to a short label such as "share: docs"
+  markers?: Record<string, string>;
+  allowCreate?: boolean;
+  "aria-label"?: string;
 }
 
-export const DatasetSelect: React.FC<DatasetSelectProps> = (props) => {
+export const DatasetBrowser: React.FC<DatasetBrowserProps> = ({
+  id,
+  pool,
+  value,
+  onChange,
+  markers = {},
+  allowCreate = false,
+  "aria-label": ariaLabel,
+}) => {
+  const [children, setChildren] = useState<Record<string, string[]>>({});
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [shown, setShown] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState<Record<string, boolean>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [creatingIn, setCreatingIn] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+
+  const load = useCallback((parent: string) => {
+    setLoading((l) => ({ ...l, [parent]: true }));
+    return listChildDatasets(parent)
+      .then((names) => setChildren((c) => ({ ...c, [parent]: names })))
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setLoading((l) => ({ ...l, [parent]: false })));
+  }, []);
+
+  useEffect(() => {
+    setChildren({});
+    setExpanded({});
+    setShown({});
+    setError(null);
+    setCreatingIn(null);
+    if (pool) load(pool);
+  }, [pool, load]);
+
+  const toggle = (name: string) => {
+    const open = !expanded[name];
+    setExpanded((e) => ({ ...e, [name]: open }));
+    if (open && !children[name]) load(name);
+  };
+
+  const relative = (name: string) => name.slice(pool.length + 1);
+
+  const handleCreate = (parent: string) => {
+    if (!DATASET_NAME_RE.test(newName)) {
+      setError("Dataset names must start with a letter or digit and contain only letters, digits, '_' and '-'.");
+      return;
+    }
+    const name = `${parent}/${newName}`;
+    setError(null);
+    cockpit
+      .spawn(["zfs", "create", name], { superuser: "require", err: "message" })
+      .then(() => load(parent))
+      .then(() => {
+        setExpanded((e) => ({ ...e, [parent]: true }));
+        setCreatingIn(null);
+        setNewName("");
+        onChange(relative(name));
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)));
+  };
+
+  const renderCreate = (parent: string) => (
+    <li style={{ paddingLeft: 22 }}>
+      <input
+        type="text"
+        className="pf-v5-c-form-control"
+        style={{ width: "auto" }}
+        placeholder="New dataset name"
+        value={newName}
+        onChange={(e) => setNewName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            handleCreate(parent);
+          }
+        }}
+        aria-label={`${id}-new-dataset`}
+        autoFocus
+      />{" "}
+      <button className="pf-v5-c-button pf-m-secondary pf-m-small" type="button" onClick={() => handleCreate(parent)}>
+        Create
+      </button>{" "}
+      <button className="pf-v5-c-button pf-m-link pf-m-small" type="button" onClick={() => setCreatingIn(null)}>
+        Cancel
+      </button>
+    </li>
+  );
+
+  const renderLevel = (parent: string): React.ReactNode => {
+    const names = children[parent];
+    if (loading[parent] && !names) return <div style={{ paddingLeft: 22 }}>Loading...</div>;
+    if (!names) return null;
+    const limit = shown[parent] || DATASET_PAGE_SIZE;
+    return (
+      <ul role="group" style={{ listStyle: "none", margin: 0, paddingLeft: parent === pool ? 0 : 18 }}>
+        {creatingIn === parent && renderCreate(parent)}
+        {names.slice(0, limit).map((name) => {
+          const rel = relative(name);
+          const isLeaf = children[name]?.length === 0;
+          return (
+            <li key={name} role="treeitem" aria-expanded={!!expanded[name]} aria-selected={rel === value}>
+              <button
+                className="pf-v5-c-button pf-m-plain pf-m-small"
+                type="button"
+                onClick={() => toggle(name)}
+                disabled={isLeaf}
+                aria-label={expanded[name] ? `Collapse ${name}` : `Expand ${name}`}
+                style={{ visibility: isLeaf ? "hidden" : "visible" }}
+              >
+                {expanded[name] ? "▾" : "▸"}
+              </button>
+              <button
+                className={`pf-v5-c-button pf-m-small ${rel === value ? "pf-m-primary" : "pf-m-link"}`}
+                type="button"
+                onClick={() => onChange(rel)}
+              >
+                {name.slice(name.lastIndexOf("/") + 1)}
+              </button>
+              {markers[name] && <span className="pf-v5-c-label pf-m-compact">{markers[name]}</span>}
+              {allowCreate && (
+                <button
+                  className="pf-v5-c-button pf-m-link pf-m-small"
+                  type="button"
+                  onClick={() => {
+                    setCreatingIn(name);
+                    setNewName("");
+                    setExpanded((e) => ({ ...e, [name]: true }));
+                    if (!children[name]) load(name);
+                  }}
+                >
+                  + Child
+                </button>
+              )}
+              {expanded[name] && renderLevel(name)}
+            </li>
+          );
+        })}
+        {names.length > limit && (
+          <li style={{ paddingLeft: 22 }}>
+            <button
+              className="pf-v5-c-button pf-m-link pf-m-small"
+              type="button"
+              onClick={() => setShown((s) => ({ ...s, [parent]: limit + DATASET_PAGE_SIZE }))}
+            >
+              Show more ({names.length - limit} remaining)
+            </button>
+          </li>
+        )}
+      </ul>
+    );
+  };
+
+  if (!pool) return <div className="pf-v5-c-form-control">Select a pool first.</div>;
+
   return (
-    <StringListSelect
-      id={props.id}
-      value={props.value}
-      onChange={props.onChange}
-      options={props.datasets}
-      placeholder={props.placeholder || "Select a dataset"}
-      disabled={props.disabled}
-      required={props.required}
-      allowEmpty={props.allowEmpty}
-      className={props.className}
-      aria-label={props["aria-label"] || "dataset-select"}
-    />
+    <div id={id} aria-label={ariaLabel || "dataset-browser"}>
+      <input
+        type="text"
+        className="pf-v5-c-form-control"
+        style={{ marginBottom: 6 }}
+        placeholder="Dataset path within the pool (pick below or type a new one)"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        aria-label={`${id}-path`}
+      />
+      {error && <div className="pf-v5-c-helper-text__item pf-m-error">{error}</div>}
+      <div role="tree" style={{ maxHeight: 300, overflowY: "auto", border: "1px solid var(--pf-t--global--border--color--default, #d2d2d2)", padding: 6 }}>
+        <div>
+          <strong>{pool}</strong>
+          {allowCreate && (
+            <button
+              className="pf-v5-c-button pf-m-link pf-m-small"
+              type="button"
+              onClick={() => {
+                setCreatingIn(pool);
+                setNewName("");
+              }}
+            >
+              + Child
+            </button>
+          )}
+        </div>
+        {renderLevel(pool)}
+        {children[pool]?.length === 0 && creatingIn !== pool && <div style={{ paddingLeft: 22 }}>No datasets in this pool.</div>}
+      </div>
+    </div>
   );
 };
 